@@ -0,0 +1,237 @@
+import { z } from "zod";
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+import { Temporal } from "@js-temporal/polyfill";
+import { userTimeZone, VaultConfig } from "./config";
+import { findSimilarNotes, getVectorStore } from "./embeddings";
+import { invokeStructured } from "./providers";
+import { currentDailyNoteDate, getDailyNoteDate } from "./utils";
+import { readVaultNote, VaultNote } from "./vault";
+
+/**
+ * Limits the notes a question is answered from.
+ */
+export interface AskFilter {
+  /** Vault-relative folder, subfolders included */
+  folder?: string;
+  /** Tag without "#"; nested tags such as "project/dain" match "project" */
+  tag?: string;
+  /** Only notes dated within this range (inclusive), see noteDate */
+  start?: Temporal.PlainDate;
+  end?: Temporal.PlainDate;
+}
+
+/**
+ * A section of a note retrieved for a question.
+ */
+export interface Passage {
+  path: string;
+  title: string;
+  /** Link target of the section, e.g. "Note#Heading" */
+  link: string;
+  heading: string;
+  date: Temporal.PlainDate;
+  text: string;
+}
+
+export interface Citation {
+  path: string;
+  link: string;
+  heading: string;
+  /** Excerpt of the passage, checked to appear in the note */
+  quote: string;
+}
+
+export interface VaultAnswer {
+  /** Whether the vault contains the answer */
+  found: boolean;
+  /** The answer in markdown, each claim followed by links to its sources */
+  answer: string;
+  /** What the notes don't say, when the answer is missing or partial */
+  missing: string;
+  citations: Citation[];
+  /** Passages the answer was drawn from */
+  passages: Passage[];
+  /** Claims left out because none of their quotes could be found in the passages */
+  unsupportedClaims: number;
+}
+
+const answerSchema = z.object({
+  found: z.boolean().describe("Whether the passages contain an answer to the question"),
+  claims: z.array(z.object({
+    statement: z.string().describe("One claim of the answer, in second person"),
+    citations: z.array(z.object({
+      passage: z.number().int().describe("Number of the passage supporting the claim"),
+      quote: z.string().describe("Exact excerpt of that passage, copied word for word")
+    })).describe("The passages supporting the claim")
+  })).describe("The answer as a list of claims, empty when the passages don't contain it"),
+  missing: z.string().describe("What the passages don't say that the question asks for, empty when the answer is complete")
+});
+
+const ANSWER_INSTRUCTIONS = `
+You answer questions about my notes. Today is {today}. The next message contains my question followed by numbered passages from my notes, each with the note title, section and date.
+Answer only from these passages, never from your own knowledge:
+1. Split the answer into claims. Every claim must cite at least one passage number with a short excerpt copied word for word from that passage.
+2. Prefer the most recent passages when notes disagree, and mention the disagreement.
+3. If the passages don't contain the answer, set found to false, leave claims empty and explain in missing what isn't there. Don't guess.
+`;
+
+// Chunks fetched from the vector store per question, more when filters may discard most of them
+const CANDIDATES = 30;
+const FILTERED_CANDIDATES = 100;
+// Passages given to the model, and at most this many from the same note
+const MAX_PASSAGES = 8;
+const MAX_PASSAGES_PER_NOTE = 3;
+
+function normalizeQuote(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[“”„"]/g, "\"")
+    .replace(/[‘’']/g, "'")
+    .replace(/[*_`]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * The date a note is about: a daily note's own date, else its `created`
+ * property, else the day in `timeZone` it was last modified.
+ */
+function noteDate(config: VaultConfig, note: VaultNote, timeZone: string): Temporal.PlainDate {
+  const daily = getDailyNoteDate(config, note.path);
+  if (daily) return daily;
+  const created = note.frontmatter.created;
+  const createdText = created instanceof Date ? created.toISOString() : typeof created === "string" ? created : "";
+  const match = createdText.match(/^\d{4}-\d{2}-\d{2}/);
+  if (match) return Temporal.PlainDate.from(match[0]);
+  return Temporal.Instant.fromEpochMilliseconds(Math.round(note.mtimeMs))
+    .toZonedDateTimeISO(timeZone)
+    .toPlainDate();
+}
+
+function matchesFilter(note: VaultNote, date: Temporal.PlainDate, filter: AskFilter): boolean {
+  if (filter.folder && !note.path.startsWith(`${filter.folder.replace(/^\/+|\/+$/g, "")}/`)) return false;
+  if (filter.tag) {
+    const tag = filter.tag.replace(/^#/, "").toLowerCase();
+    if (!note.tags.some(noteTag => noteTag === tag || noteTag.startsWith(`${tag}/`))) return false;
+  }
+  if (filter.start && Temporal.PlainDate.compare(date, filter.start) < 0) return false;
+  if (filter.end && Temporal.PlainDate.compare(date, filter.end) > 0) return false;
+  return true;
+}
+
+/**
+ * Retrieve the note sections most similar to a question that pass the filter.
+ * Notes are dated in `timeZone`.
+ */
+export async function retrievePassages(
+  config: VaultConfig,
+  question: string,
+  filter: AskFilter = {},
+  timeZone: string = userTimeZone(config)
+): Promise<Passage[]> {
+  const filtered = Object.values(filter).some(value => value !== undefined);
+  const vectorStore = await getVectorStore(config);
+  const results = await findSimilarNotes(vectorStore, question, filtered ? FILTERED_CANDIDATES : CANDIDATES);
+
+  const notes = new Map<string, { note: VaultNote; date: Temporal.PlainDate } | undefined>();
+  const perNote = new Map<string, number>();
+  const passages: Passage[] = [];
+  for (const [doc] of results) {
+    const notePath: string = doc.metadata.path;
+    if (!notes.has(notePath)) {
+      const note = await readVaultNote(config.vaultPath, notePath).catch(() => undefined);
+      notes.set(notePath, note && { note, date: noteDate(config, note, timeZone) });
+    }
+    const found = notes.get(notePath);
+    if (!found || !matchesFilter(found.note, found.date, filter)) continue;
+    if ((perNote.get(notePath) ?? 0) >= MAX_PASSAGES_PER_NOTE) continue;
+    perNote.set(notePath, (perNote.get(notePath) ?? 0) + 1);
+
+    passages.push({
+      path: notePath,
+      title: found.note.title,
+      link: doc.metadata.link ?? found.note.title,
+      heading: doc.metadata.heading ?? "",
+      date: found.date,
+      text: doc.pageContent
+    });
+    if (passages.length >= MAX_PASSAGES) break;
+  }
+  return passages;
+}
+
+/**
+ * Answer a question from the vault. The model only sees the retrieved
+ * passages and has to back every claim with a quote from them; quotes are
+ * checked against the passages and claims without a valid one are dropped.
+ * Relative dates in the question are counted from today in `timeZone`.
+ */
+export async function askVault(
+  config: VaultConfig,
+  question: string,
+  filter: AskFilter = {},
+  timeZone: string = userTimeZone(config)
+): Promise<VaultAnswer> {
+  const today = currentDailyNoteDate(config, { timeZone });
+  const passages = await retrievePassages(config, question, filter, timeZone);
+  if (passages.length === 0) {
+    return {
+      found: false,
+      answer: "",
+      missing: "No notes matched the question and filters.",
+      citations: [],
+      passages,
+      unsupportedClaims: 0
+    };
+  }
+
+  const prompt = ChatPromptTemplate.fromMessages([
+    ["system", ANSWER_INSTRUCTIONS],
+    ["human", "Question: {question}\n\n{passages}"]
+  ]);
+  const messages = await prompt.formatMessages({
+    today: today.toString(),
+    question,
+    passages: passages
+      .map((passage, i) => `[${i + 1}] ${passage.title}${passage.heading ? ` > ${passage.heading}` : ""} (${passage.date})\n${passage.text}`)
+      .join("\n\n")
+  });
+  const result = await invokeStructured("answer", answerSchema, messages, "vault_answer", [...new Set(passages.map(passage => passage.path))]);
+
+  const citations: Citation[] = [];
+  const paragraphs: string[] = [];
+  let unsupportedClaims = 0;
+  for (const claim of result.claims) {
+    const supported = claim.citations.filter(citation => {
+      const passage = passages[citation.passage - 1];
+      const quote = normalizeQuote(citation.quote);
+      return passage && quote && normalizeQuote(passage.text).includes(quote);
+    });
+    if (supported.length === 0) {
+      unsupportedClaims++;
+      continue;
+    }
+
+    const links: string[] = [];
+    for (const citation of supported) {
+      const passage = passages[citation.passage - 1];
+      if (!links.includes(passage.link)) links.push(passage.link);
+      if (!citations.some(existing => existing.link === passage.link && existing.quote === citation.quote)) {
+        citations.push({ path: passage.path, link: passage.link, heading: passage.heading, quote: citation.quote.trim() });
+      }
+    }
+    paragraphs.push(`${claim.statement.trim()} (${links.map(link => `[[${link}]]`).join(", ")})`);
+  }
+
+  const found = result.found && paragraphs.length > 0;
+  return {
+    found,
+    answer: found ? paragraphs.join("\n\n") : "",
+    missing: found
+      ? result.missing.trim()
+      : result.missing.trim() || "The retrieved notes don't contain an answer to this question.",
+    citations,
+    passages,
+    unsupportedClaims
+  };
+}
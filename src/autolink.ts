@@ -0,0 +1,164 @@
+import { VaultConfig } from "./config";
+import { parseLinks, resolveLinkTarget } from "./links";
+import { refreshSearchIndex } from "./search";
+
+/**
+ * A proposed inline link for the first mention of an existing note.
+ */
+export interface LinkSuggestion {
+  /** Vault-relative path of the mentioned note */
+  notePath: string;
+  /** Shortest link path that resolves to the note, e.g. "Idea" or "Projects/Idea" */
+  linkTarget: string;
+  /** The mention as written in the content */
+  mention: string;
+  /** The line around the mention, for review */
+  context: string;
+}
+
+interface LinkCandidate {
+  /** Title or alias to look for */
+  text: string;
+  notePath: string;
+  linkTarget: string;
+}
+
+// Shorter titles and aliases match ordinary words too often
+const MIN_MENTION_LENGTH = 3;
+
+// Masked characters never match a title, so matches can't span code or existing links
+const MASK = "\u0000";
+
+/**
+ * Hide everything that must not be linked: frontmatter, code, headings,
+ * existing wikilinks and markdown links, URLs and tags. Offsets are preserved.
+ */
+function maskUnlinkable(content: string): string {
+  const mask = (text: string) => text.replace(/[^\n]/g, MASK);
+  return content
+    .replace(/^---\r?\n[\s\S]*?\r?\n---[ \t]*(?=\r?\n|$)/, mask)
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, mask)
+    .replace(/`[^`\n]*`/g, mask)
+    .replace(/^#{1,6}[ \t].*$/gm, mask)
+    .replace(/!?\[\[[^\]\n]*\]\]/g, mask)
+    .replace(/!?\[[^\]\n]*\]\([^)\n]*\)/g, mask)
+    .replace(/\b[a-z][a-z0-9+.-]*:\/\/\S+/gi, mask)
+    .replace(/(^|\s)#[\p{L}\p{N}_/-]+/gu, mask);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Find the first whole-word mention of each text that doesn't overlap an earlier match.
+ * Longer texts are matched first so "Deep Work" wins over "Work".
+ */
+function findMentions<T extends { text: string }>(content: string, items: T[], caseSensitive: boolean): { item: T; start: number; end: number }[] {
+  const masked = maskUnlinkable(content);
+  const taken: { start: number; end: number }[] = [];
+  const mentions: { item: T; start: number; end: number }[] = [];
+
+  for (const item of [...items].sort((a, b) => b.text.length - a.text.length)) {
+    const words = item.text.trim().split(/\s+/).map(escapeRegExp).join("[ \\t]+");
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])${words}(?![\\p{L}\\p{N}_])`, caseSensitive ? "gu" : "giu");
+    for (const match of masked.matchAll(pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (taken.some(range => start < range.end && end > range.start)) continue;
+      taken.push({ start, end });
+      mentions.push({ item, start, end });
+      break;
+    }
+  }
+  return mentions;
+}
+
+function lineAround(content: string, start: number, end: number): string {
+  const lineStart = content.lastIndexOf("\n", start - 1) + 1;
+  const lineEnd = content.indexOf("\n", end);
+  return content.slice(lineStart, lineEnd === -1 ? undefined : lineEnd).trim();
+}
+
+/**
+ * Collect the titles and frontmatter aliases of the indexed notes as link candidates.
+ */
+export async function getLinkCandidates(config: VaultConfig): Promise<LinkCandidate[]> {
+  const index = await refreshSearchIndex(config);
+  const notePaths = [...index.notes.keys()];
+  const candidates: LinkCandidate[] = [];
+
+  for (const [notePath, { note }] of index.notes) {
+    // Link by title when that is unambiguous, otherwise by path
+    const linkTarget = resolveLinkTarget(note.title, "", notePaths) === notePath ? note.title : notePath.replace(/\.md$/, "");
+    const aliases = note.frontmatter.aliases ?? note.frontmatter.alias;
+    const texts = [note.title, ...(Array.isArray(aliases) ? aliases : typeof aliases === "string" ? [aliases] : [])];
+    for (const text of texts) {
+      if (typeof text === "string" && text.trim().length >= MIN_MENTION_LENGTH) {
+        candidates.push({ text: text.trim(), notePath, linkTarget });
+      }
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Propose a link for the first mention of each existing note in `content`.
+ * Notes the content already links to, and the notes in `excludePaths`
+ * (usually the note being written), are left alone.
+ */
+export function suggestLinks(content: string, candidates: LinkCandidate[], excludePaths: string[] = []): LinkSuggestion[] {
+  const notePaths = [...new Set(candidates.map(candidate => candidate.notePath))];
+  const linked = new Set(parseLinks(content)
+    .map(link => resolveLinkTarget(link.target, excludePaths[0] ?? "", notePaths))
+    .filter(Boolean));
+
+  const eligible = candidates.filter(candidate => !linked.has(candidate.notePath) && !excludePaths.includes(candidate.notePath));
+  const suggestions: LinkSuggestion[] = [];
+  for (const { item, start, end } of findMentions(content, eligible, false).sort((a, b) => a.start - b.start)) {
+    // Only the first mention of a note is linked, even if it also matched an alias
+    if (suggestions.some(suggestion => suggestion.notePath === item.notePath)) continue;
+    suggestions.push({
+      notePath: item.notePath,
+      linkTarget: item.linkTarget,
+      mention: content.slice(start, end),
+      context: lineAround(content, start, end)
+    });
+  }
+  return suggestions;
+}
+
+/**
+ * Turn the first unlinked mention of each suggestion into a `[[Note|mention]]` link.
+ * Mentions are searched again, so this also works after the content was edited;
+ * suggestions whose mention no longer appears are skipped.
+ */
+export function applyLinks(content: string, suggestions: LinkSuggestion[]): string {
+  const mentions = findMentions(content, suggestions.map(suggestion => ({ ...suggestion, text: suggestion.mention })), true);
+  let linked = content;
+  for (const { item, start, end } of mentions.sort((a, b) => b.start - a.start)) {
+    const mention = linked.slice(start, end);
+    const link = mention === item.linkTarget ? `[[${mention}]]` : `[[${item.linkTarget}|${mention}]]`;
+    linked = linked.slice(0, start) + link + linked.slice(end);
+  }
+  return linked;
+}
+
+/**
+ * Pick the suggestions a user accepted, given as 1-based numbers such as "1, 3".
+ * Without a selection every suggestion is accepted.
+ */
+export function selectSuggestions(suggestions: LinkSuggestion[], accepted: string | undefined): LinkSuggestion[] {
+  if (accepted === undefined) return suggestions;
+  const numbers = new Set(accepted.split(/[\s,]+/).filter(Boolean).map(Number));
+  return suggestions.filter((_, i) => numbers.has(i + 1));
+}
+
+/**
+ * List suggestions for review, numbered for `selectSuggestions`.
+ */
+export function formatSuggestions(suggestions: LinkSuggestion[]): string {
+  return suggestions
+    .map((suggestion, i) => `${i + 1}. "${suggestion.mention}" → [[${suggestion.linkTarget}]]: ${suggestion.context}`)
+    .join("\n");
+}
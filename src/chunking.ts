@@ -0,0 +1,137 @@
+import { parseOutline } from "./sections";
+
+/**
+ * A piece of a note small enough to embed, taken from a single section.
+ */
+export interface MarkdownChunk {
+  text: string;
+  /** Headings from the top level down to the chunk's section, empty before the first heading */
+  headingPath: string[];
+  /** First and last line of the chunk in the note, 1-based and inclusive */
+  startLine: number;
+  endLine: number;
+}
+
+// Sections longer than this are split between blocks
+export const MAX_CHUNK_CHARS = 2000;
+
+const LIST_ITEM = /^[ \t]*(?:[-*+]|\d+[.)])[ \t]/;
+const FENCE = /^[ \t]*(```|~~~)/;
+
+/**
+ * Split lines into blocks that shouldn't be cut apart: paragraphs, whole
+ * lists (nested items and blank lines between items included), tables and
+ * fenced code blocks. Returns [start, end) line ranges.
+ */
+function findBlocks(lines: string[], start: number, end: number): [number, number][] {
+  const blocks: [number, number][] = [];
+  let i = start;
+  while (i < end) {
+    if (!lines[i].trim()) {
+      i++;
+      continue;
+    }
+
+    const blockStart = i;
+    const fence = lines[i].match(FENCE)?.[1];
+    if (fence) {
+      i++;
+      while (i < end && lines[i].match(FENCE)?.[1] !== fence) i++;
+      blocks.push([blockStart, Math.min(i + 1, end)]);
+      i++;
+      continue;
+    }
+
+    const isList = LIST_ITEM.test(lines[i]);
+    i++;
+    while (i < end) {
+      if (FENCE.test(lines[i]) && !/^[ \t]/.test(lines[i])) break;
+      if (lines[i].trim()) {
+        i++;
+        continue;
+      }
+      // A list goes on after a blank line when the next line is another item or indented under one
+      let next = i;
+      while (next < end && !lines[next].trim()) next++;
+      if (!isList || next === end || !(LIST_ITEM.test(lines[next]) || /^[ \t]/.test(lines[next]))) break;
+      i = next;
+    }
+    blocks.push([blockStart, i]);
+  }
+  return blocks;
+}
+
+/**
+ * Split a markdown note into chunks along its heading hierarchy. Every
+ * section's own content (up to its first subheading) becomes one chunk, and
+ * sections longer than `maxChars` are split between paragraphs, lists and
+ * code blocks, which are only cut when a single one is longer than `maxChars`.
+ */
+export function chunkMarkdown(content: string, maxChars: number = MAX_CHUNK_CHARS): MarkdownChunk[] {
+  const { lines, bodyStart, sections } = parseOutline(content);
+  const ranges = [
+    { headingPath: [] as string[], start: bodyStart, end: sections[0]?.line ?? lines.length },
+    ...sections.map(section => ({ headingPath: section.path, start: section.line, end: section.contentEnd }))
+  ];
+
+  const chunks: MarkdownChunk[] = [];
+  for (const { headingPath, start, end } of ranges) {
+    // The heading line starts the first block, so a heading without content makes no chunk
+    const contentStart = headingPath.length > 0 ? start + 1 : start;
+    const blocks = findBlocks(lines, contentStart, end);
+    if (blocks.length === 0) continue;
+    if (headingPath.length > 0) blocks[0][0] = start;
+
+    // Cut blocks that are too long on their own between lines
+    const pieces: [number, number][] = [];
+    for (const [blockStart, blockEnd] of blocks) {
+      let pieceStart = blockStart;
+      let length = 0;
+      for (let i = blockStart; i < blockEnd; i++) {
+        if (i > pieceStart && length + lines[i].length + 1 > maxChars) {
+          pieces.push([pieceStart, i]);
+          pieceStart = i;
+          length = 0;
+        }
+        length += lines[i].length + 1;
+      }
+      pieces.push([pieceStart, blockEnd]);
+    }
+
+    let current: [number, number] | undefined;
+    const flush = () => {
+      if (!current) return;
+      const text = lines.slice(current[0], current[1]).join("\n").trim();
+      if (text) chunks.push({ text, headingPath, startLine: current[0] + 1, endLine: current[1] });
+      current = undefined;
+    };
+    for (const [pieceStart, pieceEnd] of pieces) {
+      if (current && lines.slice(current[0], pieceEnd).join("\n").length > maxChars) flush();
+      current = current ? [current[0], pieceEnd] : [pieceStart, pieceEnd];
+    }
+    flush();
+  }
+  return chunks;
+}
+
+/**
+ * The text Obsidian matches a heading link against: links inside the heading
+ * are reduced to their text and the characters links can't contain are dropped.
+ */
+export function headingAnchor(heading: string): string {
+  return heading
+    .replace(/\[\[([^\]|]*)\|([^\]]*)\]\]/g, "$2")
+    .replace(/\[\[([^\]]*)\]\]/g, "$1")
+    .replace(/[#^|[\]]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Link target for a section of a note, e.g. "Note#Heading", or just the note
+ * title when there's no heading.
+ */
+export function sectionLink(title: string, headingPath: string[]): string {
+  const anchor = headingPath.length > 0 ? headingAnchor(headingPath[headingPath.length - 1]) : "";
+  return anchor ? `${title}#${anchor}` : title;
+}
@@ -0,0 +1,349 @@
+import { z } from "zod";
+import fs from "fs/promises";
+import path from "path";
+import { minimatch } from "minimatch";
+import { Temporal } from "@js-temporal/polyfill";
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "u");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const configSchema = z.object({
+  /** Absolute path to the Obsidian vault */
+  vaultPath: z.string().min(1, "vaultPath is required"),
+  dailyNotes: z.object({
+    /** Vault-relative folder holding the daily notes */
+    folder: z.string().default(""),
+    /** moment.js style format of the daily note file name, may contain "/" for subfolders */
+    format: z.string().min(1).default("YYYY-MM-DD"),
+    /** Vault-relative path of the daily note template, with or without ".md" */
+    template: z.string().optional(),
+    /**
+     * How missing daily notes are created: "template" writes the file directly,
+     * "uri" asks a running Obsidian through the Actions URI plugin
+     */
+    creation: z.enum(["template", "uri"]).default("template"),
+    /** IANA time zone that decides which day it is, e.g. "Europe/Amsterdam"; the server's by default */
+    timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
+    /** Hour the day starts at, so that a reflection recorded before it still goes into the previous day's note */
+    dayStartHour: z.number().int().min(0).max(23).default(0)
+  }).default({}),
+  templates: z.object({
+    /** Default format of {{date}} in templates */
+    dateFormat: z.string().min(1).default("YYYY-MM-DD"),
+    /** Default format of {{time}} in templates */
+    timeFormat: z.string().min(1).default("HH:mm")
+  }).default({}),
+  /** Vault name or ID used in obsidian:// URIs, defaults to the vault folder name */
+  obsidianVault: z.string().optional(),
+  newNotes: z.object({
+    /** Vault-relative folder where notes created by add-note are saved */
+    folder: z.string().default("")
+  }).default({}),
+  periodicNotes: z.object({
+    /** Vault-relative folder where generated weekly and monthly reviews are saved */
+    folder: z.string().default(""),
+    /** moment.js style file name format of weekly notes */
+    weeklyFormat: z.string().min(1).default("GGGG-[W]WW"),
+    /** moment.js style file name format of monthly notes */
+    monthlyFormat: z.string().min(1).default("YYYY-MM")
+  }).default({}),
+  tasks: z.object({
+    /** Heading of daily notes that add-task and rolled over tasks go under */
+    heading: z.string().min(1).default("Tasks"),
+    /** How many days back update-daily-note looks for the previous daily note to roll tasks over from */
+    rolloverDays: z.number().int().min(1).default(7)
+  }).default({}),
+  related: z.object({
+    /** Most related notes suggested for a note */
+    limit: z.number().int().min(1).default(5),
+    /** Minimum score (0 to 1) a note needs to be suggested, see findRelatedNotes */
+    minScore: z.number().min(0).max(1).default(0.25),
+    /** Vault-relative folders whose notes are never suggested as related */
+    excludeFolders: z.array(z.string()).default([])
+  }).default({}),
+  privacy: z.object({
+    /** Frontmatter property that keeps a note away from model providers when true */
+    flag: z.string().min(1).default("private"),
+    /** Vault-relative folders whose notes are never embedded or sent to a model */
+    excludeFolders: z.array(z.string()).default([]),
+    /** Tags whose notes are never embedded or sent to a model, nested tags included */
+    excludeTags: z.array(z.string()).default([]),
+    redact: z.object({
+      /** Replace email addresses with [email] before sending */
+      emails: z.boolean().default(false),
+      /** Replace phone numbers with [phone] before sending */
+      phoneNumbers: z.boolean().default(false),
+      /** Regular expressions whose matches are replaced with [redacted] before sending */
+      patterns: z.array(z.string().refine(isValidRegExp, "Invalid regular expression")).default([])
+    }).default({}),
+    /** Record every request to a model provider in .obsidian-service/audit.jsonl */
+    audit: z.boolean().default(true)
+  }).default({}),
+  imports: z.object({
+    /** Absolute path of the folder import-transcripts may read from; imports are refused until it is set */
+    root: z.string().optional()
+  }).default({}),
+  usage: z.object({
+    /** Answer repeated model requests and embeddings of unchanged text from the local cache */
+    cache: z.boolean().default(true),
+    /** Estimated spend in US dollars after which no more model requests are made that day */
+    dailyBudget: z.number().min(0).optional(),
+    /** The same per tool, e.g. { "add-note": 0.5 } */
+    toolBudgets: z.record(z.number().min(0)).default({}),
+    /** US dollars per million input and output tokens by model, added to or replacing the built-in prices */
+    prices: z.record(z.object({
+      input: z.number().min(0),
+      output: z.number().min(0).default(0)
+    })).default({})
+  }).default({}),
+  indexing: z.object({
+    /** Globs of vault-relative note paths that are indexed for search and related notes */
+    include: z.array(z.string()).default(["**/*.md"]),
+    /** Globs of vault-relative note paths that are never indexed */
+    exclude: z.array(z.string()).default([])
+  }).default({})
+});
+
+export type VaultConfig = z.infer<typeof configSchema>;
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+type ConfigLayer = DeepPartial<z.input<typeof configSchema>>;
+
+const DEFAULT_CONFIG_FILE = "obsidian-service.config.json";
+
+// Service data (indexes, drafts, ...) lives in a hidden folder inside the vault so Obsidian ignores it
+const SERVICE_DIR_NAME = ".obsidian-service";
+
+let configPromise: Promise<VaultConfig> | undefined;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge config layers; later layers win. Arrays are replaced rather than concatenated.
+ */
+function mergeLayers(...layers: ConfigLayer[]): Record<string, unknown> {
+  const merge = (target: Record<string, unknown>, source: Record<string, unknown>) => {
+    for (const [key, value] of Object.entries(source)) {
+      if (value === undefined) continue;
+      target[key] = isPlainObject(value) && isPlainObject(target[key])
+        ? merge({ ...target[key] }, value)
+        : value;
+    }
+    return target;
+  };
+  return layers.reduce<Record<string, unknown>>((merged, layer) => merge(merged, layer), {});
+}
+
+async function readJson<T>(filePath: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw new Error(`Failed to read ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function listFromEnv(value: string | undefined): string[] | undefined {
+  return value ? value.split(",").map(item => item.trim()).filter(Boolean) : undefined;
+}
+
+function envLayer(): ConfigLayer {
+  const env = process.env;
+  return {
+    vaultPath: env.VAULT_PATH,
+    dailyNotes: {
+      folder: env.DAILY_NOTES_FOLDER,
+      format: env.DAILY_NOTES_FORMAT,
+      template: env.DAILY_NOTES_TEMPLATE,
+      creation: env.DAILY_NOTES_CREATION as VaultConfig["dailyNotes"]["creation"] | undefined,
+      timeZone: env.DAILY_NOTES_TIME_ZONE,
+      dayStartHour: env.DAILY_NOTES_DAY_START_HOUR ? Number(env.DAILY_NOTES_DAY_START_HOUR) : undefined
+    },
+    obsidianVault: env.OBSIDIAN_VAULT,
+    newNotes: {
+      folder: env.NEW_NOTES_FOLDER
+    },
+    periodicNotes: {
+      folder: env.PERIODIC_NOTES_FOLDER
+    },
+    tasks: {
+      heading: env.TASKS_HEADING
+    },
+    related: {
+      excludeFolders: listFromEnv(env.RELATED_EXCLUDE_FOLDERS)
+    },
+    privacy: {
+      excludeFolders: listFromEnv(env.PRIVACY_EXCLUDE_FOLDERS),
+      excludeTags: listFromEnv(env.PRIVACY_EXCLUDE_TAGS)
+    },
+    imports: {
+      root: env.IMPORTS_ROOT
+    },
+    usage: {
+      cache: env.LLM_CACHE ? env.LLM_CACHE !== "false" : undefined,
+      dailyBudget: env.USAGE_DAILY_BUDGET ? Number(env.USAGE_DAILY_BUDGET) : undefined
+    },
+    indexing: {
+      include: listFromEnv(env.INDEX_INCLUDE),
+      exclude: listFromEnv(env.INDEX_EXCLUDE)
+    }
+  };
+}
+
+/**
+ * Turn Obsidian's "Excluded files" entries (path prefixes) into globs.
+ * Regex entries (`/.../`) have no glob equivalent and are skipped.
+ */
+function ignoreFilterToGlob(filter: string): string | undefined {
+  if (filter.length > 1 && filter.startsWith("/") && filter.endsWith("/")) {
+    console.warn(`Ignoring regex exclusion "${filter}" from Obsidian settings`);
+    return undefined;
+  }
+  return `${filter.replace(/\/+$/, "")}{,/**}`;
+}
+
+/**
+ * Read the defaults Obsidian itself uses from the vault's `.obsidian` folder:
+ * the Daily notes and Templates core plugin settings, the new note location and
+ * the Periodic Notes community plugin settings.
+ */
+async function obsidianLayer(vaultPath: string): Promise<ConfigLayer> {
+  type PeriodSettings = { folder?: string; format?: string };
+  const dailyNotes = await readJson<{ folder?: string; format?: string; template?: string }>(
+    path.join(vaultPath, ".obsidian", "daily-notes.json")) ?? {};
+  const app = await readJson<{ userIgnoreFilters?: string[]; newFileLocation?: string; newFileFolderPath?: string }>(
+    path.join(vaultPath, ".obsidian", "app.json")) ?? {};
+  const templates = await readJson<{ dateFormat?: string; timeFormat?: string }>(
+    path.join(vaultPath, ".obsidian", "templates.json")) ?? {};
+  const periodicNotes = await readJson<{ weekly?: PeriodSettings; monthly?: PeriodSettings }>(
+    path.join(vaultPath, ".obsidian", "plugins", "periodic-notes", "data.json")) ?? {};
+
+  const ignoreFilters: string[] = Array.isArray(app.userIgnoreFilters) ? app.userIgnoreFilters : [];
+  const exclude = ignoreFilters.map(ignoreFilterToGlob).filter((glob): glob is string => !!glob);
+
+  return {
+    dailyNotes: {
+      folder: dailyNotes.folder || undefined,
+      format: dailyNotes.format || undefined,
+      template: dailyNotes.template || undefined
+    },
+    templates: {
+      dateFormat: templates.dateFormat || undefined,
+      timeFormat: templates.timeFormat || undefined
+    },
+    newNotes: {
+      folder: app.newFileLocation === "folder" ? app.newFileFolderPath || undefined : undefined
+    },
+    periodicNotes: {
+      folder: periodicNotes.weekly?.folder || periodicNotes.monthly?.folder || undefined,
+      weeklyFormat: periodicNotes.weekly?.format || undefined,
+      monthlyFormat: periodicNotes.monthly?.format || undefined
+    },
+    indexing: {
+      exclude: exclude.length > 0 ? exclude : undefined
+    }
+  };
+}
+
+/**
+ * Strip leading/trailing slashes so vault-relative folders join predictably.
+ */
+function normalizeFolder(folder: string): string {
+  return folder.replace(/\\/g, "/").replace(/^\/+|\/+$/g, "");
+}
+
+async function loadConfig(): Promise<VaultConfig> {
+  const configFile = path.resolve(process.env.OBSIDIAN_SERVICE_CONFIG || DEFAULT_CONFIG_FILE);
+  const fileLayer: ConfigLayer = await readJson<ConfigLayer>(configFile) ?? {};
+  const env = envLayer();
+
+  // The vault path has to be known before Obsidian's own settings can be read
+  const vaultPath = env.vaultPath ?? fileLayer.vaultPath;
+  if (!vaultPath) {
+    throw new Error(`No vault configured. Set VAULT_PATH or "vaultPath" in ${configFile}`);
+  }
+  const stat = await fs.stat(vaultPath).catch(() => undefined);
+  if (!stat?.isDirectory()) {
+    throw new Error(`Vault path "${vaultPath}" is not a directory`);
+  }
+
+  // Precedence: environment, then config file, then Obsidian settings, then built-in defaults
+  const result = configSchema.safeParse(mergeLayers(await obsidianLayer(vaultPath), fileLayer, env));
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ");
+    throw new Error(`Invalid configuration: ${issues}`);
+  }
+
+  const config = result.data;
+  config.vaultPath = path.resolve(config.vaultPath);
+  config.dailyNotes.folder = normalizeFolder(config.dailyNotes.folder);
+  config.newNotes.folder = normalizeFolder(config.newNotes.folder);
+  config.periodicNotes.folder = normalizeFolder(config.periodicNotes.folder);
+  config.related.excludeFolders = config.related.excludeFolders.map(normalizeFolder).filter(Boolean);
+  config.privacy.excludeFolders = config.privacy.excludeFolders.map(normalizeFolder).filter(Boolean);
+  if (config.imports.root) {
+    config.imports.root = path.resolve(config.imports.root);
+  }
+  if (config.dailyNotes.template) {
+    config.dailyNotes.template = normalizeFolder(config.dailyNotes.template);
+  }
+  return config;
+}
+
+/**
+ * Get the service configuration. It is loaded and validated once per process.
+ */
+export function getConfig(): Promise<VaultConfig> {
+  if (!configPromise) {
+    configPromise = loadConfig();
+    configPromise.catch(() => {
+      configPromise = undefined;
+    });
+  }
+  return configPromise;
+}
+
+/**
+ * The user's IANA time zone: the given one (from the agent or a tool input),
+ * else `dailyNotes.timeZone`, else the server's.
+ */
+export function userTimeZone(config: VaultConfig, timeZone?: string): string {
+  return timeZone ?? config.dailyNotes.timeZone ?? Temporal.Now.timeZoneId();
+}
+
+/**
+ * Absolute path of a file or folder in the service's data folder inside the vault.
+ */
+export function serviceDataPath(config: VaultConfig, ...parts: string[]): string {
+  return path.join(config.vaultPath, SERVICE_DIR_NAME, ...parts);
+}
+
+/**
+ * Check a vault-relative note path against the indexing include/exclude globs.
+ * Files inside hidden folders such as `.obsidian` are never indexed.
+ */
+export function isIndexedPath(config: VaultConfig, notePath: string): boolean {
+  if (notePath.split("/").some(part => part.startsWith("."))) {
+    return false;
+  }
+  const { include, exclude } = config.indexing;
+  return include.some(glob => minimatch(notePath, glob)) && !exclude.some(glob => minimatch(notePath, glob));
+}
@@ -0,0 +1,219 @@
+import { Temporal } from "@js-temporal/polyfill";
+
+const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Longer tokens come first so that e.g. "MMMM" isn't read as two "MM"s
+const FORMAT_TOKENS = /\[([^\]]*)\]|YYYY|YY|Qo|Q|MMMM|MMM|MM|Mo|M|DDDD|DDD|Do|DD|D|dddd|ddd|dd|do|d|E|e|GGGG|gggg|WW|Wo|W|ww|wo|w|HH|H|hh|h|kk|k|mm|m|ss|s|A|a|X|x/g;
+
+function pad(value: number, length: number = 2): string {
+  return value.toString().padStart(length, "0");
+}
+
+function ordinal(value: number): string {
+  const tens = value % 100;
+  if (tens >= 11 && tens <= 13) return `${value}th`;
+  switch (value % 10) {
+    case 1: return `${value}st`;
+    case 2: return `${value}nd`;
+    case 3: return `${value}rd`;
+    default: return `${value}th`;
+  }
+}
+
+/**
+ * Format a date with a moment.js style format string, as used by Obsidian for
+ * daily note names and template variables (e.g. `YYYY-MM-DD`, `dddd, MMMM Do`).
+ * Text in square brackets is copied literally. Locale-aware week tokens
+ * (`w`, `gggg`) follow ISO weeks.
+ */
+export function formatDate(date: Temporal.PlainDate | Temporal.PlainDateTime, format: string): string {
+  const dateTime = date instanceof Temporal.PlainDate ? date.toPlainDateTime() : date;
+  const weekday = dateTime.dayOfWeek % 7; // Temporal uses 1 = Monday ... 7 = Sunday
+  const hour12 = dateTime.hour % 12 || 12;
+
+  return format.replace(FORMAT_TOKENS, (token, literal) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case "YYYY": return pad(dateTime.year, 4);
+      case "YY": return pad(dateTime.year % 100);
+      case "Q": return Math.ceil(dateTime.month / 3).toString();
+      case "Qo": return ordinal(Math.ceil(dateTime.month / 3));
+      case "MMMM": return MONTHS[dateTime.month - 1];
+      case "MMM": return MONTHS[dateTime.month - 1].slice(0, 3);
+      case "MM": return pad(dateTime.month);
+      case "Mo": return ordinal(dateTime.month);
+      case "M": return dateTime.month.toString();
+      case "DDDD": return pad(dateTime.dayOfYear, 3);
+      case "DDD": return dateTime.dayOfYear.toString();
+      case "DD": return pad(dateTime.day);
+      case "Do": return ordinal(dateTime.day);
+      case "D": return dateTime.day.toString();
+      case "dddd": return WEEKDAYS[weekday];
+      case "ddd": return WEEKDAYS[weekday].slice(0, 3);
+      case "dd": return WEEKDAYS[weekday].slice(0, 2);
+      case "do": return ordinal(weekday);
+      case "d": case "e": return weekday.toString();
+      case "E": return dateTime.dayOfWeek.toString();
+      case "GGGG": case "gggg": return pad(isoWeekYear(dateTime.toPlainDate()), 4);
+      case "WW": case "ww": return pad(dateTime.weekOfYear);
+      case "Wo": case "wo": return ordinal(dateTime.weekOfYear);
+      case "W": case "w": return dateTime.weekOfYear.toString();
+      case "HH": return pad(dateTime.hour);
+      case "H": return dateTime.hour.toString();
+      case "hh": return pad(hour12);
+      case "h": return hour12.toString();
+      case "kk": return pad(dateTime.hour || 24);
+      case "k": return (dateTime.hour || 24).toString();
+      case "mm": return pad(dateTime.minute);
+      case "m": return dateTime.minute.toString();
+      case "ss": return pad(dateTime.second);
+      case "s": return dateTime.second.toString();
+      case "A": return dateTime.hour < 12 ? "AM" : "PM";
+      case "a": return dateTime.hour < 12 ? "am" : "pm";
+      case "X": return Math.floor(epochMilliseconds(dateTime) / 1000).toString();
+      case "x": return epochMilliseconds(dateTime).toString();
+      default: return token;
+    }
+  });
+}
+
+/**
+ * The year that an ISO week belongs to, which differs from the calendar year
+ * for a few days around New Year.
+ */
+export function isoWeekYear(date: Temporal.PlainDate): number {
+  // The Thursday of a week decides which year the week belongs to
+  return date.add({ days: 4 - date.dayOfWeek }).year;
+}
+
+function epochMilliseconds(dateTime: Temporal.PlainDateTime): number {
+  return dateTime.toZonedDateTime(Temporal.Now.timeZoneId()).epochMilliseconds;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Regex fragment for each token parseDate understands; the rest are matched loosely and ignored
+const PARSE_PATTERNS: Record<string, string> = {
+  YYYY: "(\\d{4})", YY: "(\\d{2})", GGGG: "(\\d{4})", gggg: "(\\d{4})",
+  MMMM: "([A-Za-z]+)", MMM: "([A-Za-z]{3})", MM: "(\\d{2})", M: "(\\d{1,2})", Mo: "(\\d{1,2})(?:st|nd|rd|th)",
+  DD: "(\\d{2})", D: "(\\d{1,2})", Do: "(\\d{1,2})(?:st|nd|rd|th)",
+  WW: "(\\d{2})", W: "(\\d{1,2})", ww: "(\\d{2})", w: "(\\d{1,2})", Wo: "(\\d{1,2})(?:st|nd|rd|th)", wo: "(\\d{1,2})(?:st|nd|rd|th)",
+  Q: "([1-4])", Qo: "([1-4])(?:st|nd|rd|th)"
+};
+
+/**
+ * Parse a string written with a moment.js style format back into a date,
+ * e.g. a daily note file name. Returns undefined when the string doesn't match.
+ * Formats without a day (such as `GGGG-[W]WW` or `YYYY-MM`) resolve to the
+ * first day of the week, month or quarter.
+ */
+export function parseDate(value: string, format: string): Temporal.PlainDate | undefined {
+  const fields: string[] = [];
+  let pattern = "";
+  let lastIndex = 0;
+
+  for (const match of format.matchAll(FORMAT_TOKENS)) {
+    pattern += escapeRegExp(format.slice(lastIndex, match.index));
+    lastIndex = (match.index ?? 0) + match[0].length;
+    if (match[1] !== undefined) {
+      pattern += escapeRegExp(match[1]);
+    } else if (PARSE_PATTERNS[match[0]]) {
+      pattern += PARSE_PATTERNS[match[0]];
+      fields.push(match[0]);
+    } else {
+      pattern += "[A-Za-z0-9]+";
+    }
+  }
+  pattern += escapeRegExp(format.slice(lastIndex));
+
+  const match = value.match(new RegExp(`^${pattern}$`));
+  if (!match) return undefined;
+
+  const parts: Record<string, number> = {};
+  fields.forEach((field, i) => {
+    const text = match[i + 1];
+    if (field === "MMMM" || field === "MMM") {
+      const month = MONTHS.findIndex(name => name.toLowerCase().startsWith(text.toLowerCase()) && (field === "MMM" || name.length === text.length));
+      parts.month = month + 1;
+    } else if (field === "YY") {
+      parts.year = 2000 + Number(text);
+    } else if (field.startsWith("Y")) {
+      parts.year = Number(text);
+    } else if (field.startsWith("G") || field.startsWith("g")) {
+      parts.weekYear = Number(text);
+    } else if (field.startsWith("M")) {
+      parts.month = Number(text);
+    } else if (field.startsWith("D")) {
+      parts.day = Number(text);
+    } else if (field.startsWith("W") || field.startsWith("w")) {
+      parts.week = Number(text);
+    } else if (field.startsWith("Q")) {
+      parts.quarter = Number(text);
+    }
+  });
+
+  try {
+    if (parts.week !== undefined && parts.day === undefined) {
+      const weekYear = parts.weekYear ?? parts.year;
+      if (weekYear === undefined) return undefined;
+      // ISO week 1 is the week containing January 4th
+      const january4 = Temporal.PlainDate.from({ year: weekYear, month: 1, day: 4 });
+      const date = january4.subtract({ days: january4.dayOfWeek - 1 }).add({ weeks: parts.week - 1 });
+      return date.weekOfYear === parts.week ? date : undefined;
+    }
+    if (parts.year === undefined) return undefined;
+    const month = parts.month ?? (parts.quarter !== undefined ? parts.quarter * 3 - 2 : 1);
+    return Temporal.PlainDate.from({ year: parts.year, month, day: parts.day ?? 1 }, { overflow: "reject" });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve a date expression relative to `today`: an ISO date, "today",
+ * "yesterday", "tomorrow", "3 days ago", "a week ago", or a weekday such as
+ * "friday" (the most recent one, today included), "last friday" (the most
+ * recent one before today), "this friday" (in the current ISO week) or
+ * "next friday" (the first one after today). Returns undefined when the
+ * expression isn't understood.
+ */
+export function parseRelativeDate(expression: string, today: Temporal.PlainDate): Temporal.PlainDate | undefined {
+  const text = expression.trim().toLowerCase().replace(/\s+/g, " ");
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    try {
+      return Temporal.PlainDate.from(text, { overflow: "reject" });
+    } catch {
+      return undefined;
+    }
+  }
+
+  switch (text) {
+    case "today": return today;
+    case "yesterday": return today.subtract({ days: 1 });
+    case "tomorrow": return today.add({ days: 1 });
+    case "day before yesterday":
+    case "the day before yesterday": return today.subtract({ days: 2 });
+  }
+
+  const ago = text.match(/^(\d+|a|an|one) (day|week)s? ago$/);
+  if (ago) {
+    const count = /^\d+$/.test(ago[1]) ? Number(ago[1]) : 1;
+    return today.subtract(ago[2] === "day" ? { days: count } : { weeks: count });
+  }
+
+  const weekday = text.match(/^(?:(last|this|next|on) )?([a-z]+)$/);
+  // Temporal numbers the weekdays 1 = Monday ... 7 = Sunday
+  const dayOfWeek = weekday ? WEEKDAYS.findIndex(name => name.toLowerCase() === weekday[2]) : -1;
+  if (!weekday || dayOfWeek === -1) return undefined;
+  const target = dayOfWeek || 7;
+  const daysBack = (today.dayOfWeek - target + 7) % 7;
+  switch (weekday[1]) {
+    case "last": return today.subtract({ days: daysBack || 7 });
+    case "this": return today.add({ days: target - today.dayOfWeek });
+    case "next": return today.add({ days: (target - today.dayOfWeek + 7) % 7 || 7 });
+    default: return today.subtract({ days: daysBack });
+  }
+}
@@ -0,0 +1,230 @@
+export type DiffOperation =
+  | { type: "equal"; lines: string[] }
+  | { type: "insert"; lines: string[] }
+  | { type: "delete"; lines: string[] };
+
+/**
+ * A change to a range of the original lines: `[start, end)` is replaced by `lines`.
+ */
+export interface DiffHunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+}
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+}
+
+// Beyond this many cells the LCS table gets too large, so the middle is treated as one replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+export function splitLines(text: string): string[] {
+  return text.length === 0 ? [] : text.replace(/\r\n/g, "\n").split("\n");
+}
+
+/**
+ * The line break a text uses: CRLF if it has any, else LF.
+ */
+export function lineBreak(text: string): string {
+  return text.includes("\r\n") ? "\r\n" : "\n";
+}
+
+function push(operations: DiffOperation[], type: DiffOperation["type"], line: string) {
+  const last = operations[operations.length - 1];
+  if (last?.type === type) {
+    last.lines.push(line);
+  } else {
+    operations.push({ type, lines: [line] } as DiffOperation);
+  }
+}
+
+/**
+ * Line-based diff of two texts using the longest common subsequence.
+ */
+export function diffLines(before: string, after: string): DiffOperation[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Common prefix and suffix are cheap to peel off and usually most of a note
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const operations: DiffOperation[] = [];
+  a.slice(0, prefix).forEach(line => push(operations, "equal", line));
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const n = middleA.length;
+  const m = middleB.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    middleA.forEach(line => push(operations, "delete", line));
+    middleB.forEach(line => push(operations, "insert", line));
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of middleA[i..] and middleB[j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = middleA[i] === middleB[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (middleA[i] === middleB[j]) {
+        push(operations, "equal", middleA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+        push(operations, "delete", middleA[i++]);
+      } else {
+        push(operations, "insert", middleB[j++]);
+      }
+    }
+    while (i < n) push(operations, "delete", middleA[i++]);
+    while (j < m) push(operations, "insert", middleB[j++]);
+  }
+
+  a.slice(a.length - suffix).forEach(line => push(operations, "equal", line));
+  return operations;
+}
+
+/**
+ * Express a diff as hunks against the original lines.
+ */
+export function diffHunks(before: string, after: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let position = 0;
+  let current: DiffHunk | undefined;
+
+  for (const operation of diffLines(before, after)) {
+    if (operation.type === "equal") {
+      current = undefined;
+      position += operation.lines.length;
+      continue;
+    }
+    if (!current) {
+      current = { start: position, end: position, lines: [] };
+      hunks.push(current);
+    }
+    if (operation.type === "delete") {
+      position += operation.lines.length;
+      current.end = position;
+    } else {
+      current.lines.push(...operation.lines);
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Count added and removed lines between two texts.
+ */
+export function summarizeDiff(before: string, after: string): DiffSummary {
+  const summary: DiffSummary = { added: 0, removed: 0 };
+  for (const operation of diffLines(before, after)) {
+    if (operation.type === "insert") summary.added += operation.lines.length;
+    if (operation.type === "delete") summary.removed += operation.lines.length;
+  }
+  return summary;
+}
+
+/**
+ * Render a diff in unified format with a few lines of context around each change.
+ */
+export function formatUnifiedDiff(before: string, after: string, context: number = 3): string {
+  const lines: { prefix: string; text: string; changed: boolean }[] = [];
+  for (const operation of diffLines(before, after)) {
+    const prefix = operation.type === "insert" ? "+" : operation.type === "delete" ? "-" : " ";
+    for (const text of operation.lines) {
+      lines.push({ prefix, text, changed: operation.type !== "equal" });
+    }
+  }
+
+  const visible = lines.map((_, i) =>
+    lines.slice(Math.max(0, i - context), i + context + 1).some(line => line.changed));
+
+  const output: string[] = [];
+  lines.forEach((line, i) => {
+    if (visible[i]) {
+      output.push(`${line.prefix}${line.text}`);
+    } else if (i > 0 && visible[i - 1]) {
+      output.push("...");
+    }
+  });
+  return output.join("\n");
+}
+
+/**
+ * Three-way merge of two edited versions of the same base text.
+ * Changes to different parts of the text are combined; where both sides
+ * changed the same lines differently, git-style conflict markers are inserted.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string, labels = { ours: "yours", theirs: "current" }): MergeResult {
+  const baseLines = splitLines(base);
+  const changes = [
+    ...diffHunks(base, ours).map(hunk => ({ ...hunk, side: "ours" as const })),
+    ...diffHunks(base, theirs).map(hunk => ({ ...hunk, side: "theirs" as const }))
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const output: string[] = [];
+  let position = 0;
+  let conflicts = 0;
+  let i = 0;
+
+  while (i < changes.length) {
+    // Group changes whose base ranges overlap or touch
+    const group = [changes[i]];
+    let start = changes[i].start;
+    let end = changes[i].end;
+    i++;
+    while (i < changes.length && (changes[i].start < end || (changes[i].start === end && changes[i].start === start))) {
+      end = Math.max(end, changes[i].end);
+      group.push(changes[i]);
+      i++;
+    }
+
+    output.push(...baseLines.slice(position, start));
+
+    // Rebuild each side's version of the base region [start, end)
+    const region = (side: "ours" | "theirs") => {
+      const lines: string[] = [];
+      let cursor = start;
+      for (const hunk of group.filter(change => change.side === side)) {
+        lines.push(...baseLines.slice(cursor, hunk.start), ...hunk.lines);
+        cursor = hunk.end;
+      }
+      lines.push(...baseLines.slice(cursor, end));
+      return lines;
+    };
+
+    const sides = new Set(group.map(change => change.side));
+    if (sides.size === 1) {
+      output.push(...region(group[0].side));
+    } else {
+      const ourLines = region("ours");
+      const theirLines = region("theirs");
+      if (ourLines.join("\n") === theirLines.join("\n")) {
+        output.push(...ourLines);
+      } else {
+        conflicts++;
+        output.push(`<<<<<<< ${labels.ours}`, ...ourLines, "=======", ...theirLines, `>>>>>>> ${labels.theirs}`);
+      }
+    }
+    position = end;
+  }
+
+  output.push(...baseLines.slice(position));
+  return { content: output.join("\n"), conflicts };
+}
@@ -0,0 +1,171 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { serviceDataPath, VaultConfig } from "./config";
+import { createFileAtomic, hashContent, resolveVaultPath, uniqueNotePath, writeFileAtomic } from "./files";
+import { mergeThreeWay } from "./diff";
+import { writeNoteWithHistory } from "./history";
+import type { LinkSuggestion } from "./autolink";
+import type { NoteEdits } from "./sections";
+
+/**
+ * A note change prepared by a tool and waiting for the user to review and
+ * confirm it. Nothing touches the vault until the draft is committed.
+ */
+export interface Draft {
+  id: string;
+  /** Tool that staged the draft */
+  tool: string;
+  /** Vault-relative path the draft will be written to */
+  notePath: string;
+  content: string;
+  /**
+   * Frontmatter of a new note, kept apart from `content` so the title and tags
+   * can be edited on their own before the note is composed and written
+   */
+  frontmatter?: Record<string, unknown>;
+  /**
+   * Property and section edits `content` was built from, so each can be
+   * reviewed on its own and applied again to `baseContent` on confirm
+   */
+  edits?: NoteEdits;
+  /** Inline links proposed for the content, applied to the ones accepted on confirm */
+  linkSuggestions?: LinkSuggestion[];
+  /**
+   * Hash of the note as it was when the draft was reviewed, or null when the
+   * draft creates a new note. Used to detect edits made in the meantime.
+   */
+  baseHash: string | null;
+  /**
+   * The note content `baseHash` was computed from, or the template a new note
+   * at a fixed path starts from, used to merge on conflict
+   */
+  baseContent: string | null;
+  /**
+   * A new note that has to be created at `notePath` itself, such as a daily
+   * note, instead of at the next free name. A file created there since review
+   * is a conflict.
+   */
+  fixedPath?: boolean;
+  createdAt: string;
+}
+
+export type CommitResult =
+  | { status: "written"; notePath: string }
+  | { status: "conflict"; notePath: string; currentContent: string; merged: string; conflicts: number };
+
+// Drafts that were never confirmed are cleaned up after this long
+const DRAFT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function draftPath(config: VaultConfig, id: string): string {
+  if (!/^[0-9a-f-]{36}$/.test(id)) {
+    throw new Error(`Invalid draft ID "${id}"`);
+  }
+  return serviceDataPath(config, "drafts", `${id}.json`);
+}
+
+async function removeExpiredDrafts(config: VaultConfig): Promise<void> {
+  const dir = serviceDataPath(config, "drafts");
+  const entries = await fs.readdir(dir).catch(() => [] as string[]);
+  for (const entry of entries) {
+    const filePath = path.join(dir, entry);
+    const stat = await fs.stat(filePath).catch(() => undefined);
+    if (stat && Date.now() - stat.mtimeMs > DRAFT_TTL_MS) {
+      await fs.rm(filePath, { force: true });
+    }
+  }
+}
+
+/**
+ * Stage a draft for review. The target path is validated now so that a bad
+ * path is reported before the user spends time reviewing.
+ */
+export async function createDraft(config: VaultConfig, draft: Omit<Draft, "id" | "createdAt">): Promise<Draft> {
+  resolveVaultPath(config.vaultPath, draft.notePath);
+  await removeExpiredDrafts(config);
+
+  const staged: Draft = { ...draft, id: randomUUID(), createdAt: new Date().toISOString() };
+  await saveDraft(config, staged);
+  return staged;
+}
+
+export async function saveDraft(config: VaultConfig, draft: Draft): Promise<void> {
+  await writeFileAtomic(draftPath(config, draft.id), JSON.stringify(draft, null, 2));
+}
+
+export async function getDraft(config: VaultConfig, id: string): Promise<Draft> {
+  try {
+    return JSON.parse(await fs.readFile(draftPath(config, id), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Draft "${id}" not found. It may have been confirmed already or expired.`);
+    }
+    throw error;
+  }
+}
+
+export async function discardDraft(config: VaultConfig, id: string): Promise<void> {
+  await fs.rm(draftPath(config, id), { force: true });
+}
+
+/**
+ * Write a reviewed draft to the vault.
+ *
+ * New notes never overwrite an existing file; if the name was taken since
+ * review, the next free name is used, or for a note at a fixed path the file
+ * there is merged with like an edited note. Edits to existing notes are only written
+ * if the note is unchanged since review, and the replaced version is kept in
+ * the note history. Otherwise the draft is rebased onto the
+ * current note and a three-way merge is returned for the user to resolve.
+ */
+export async function commitDraft(config: VaultConfig, draft: Draft, content: string): Promise<CommitResult> {
+  if (draft.baseHash === null && !draft.fixedPath) {
+    for (let attempt = 0; ; attempt++) {
+      const notePath = await uniqueNotePath(config.vaultPath, draft.notePath);
+      try {
+        await createFileAtomic(resolveVaultPath(config.vaultPath, notePath), content);
+        await discardDraft(config, draft.id);
+        return { status: "written", notePath };
+      } catch (error) {
+        // Lost a race for the name, try the next one
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST" || attempt >= 5) throw error;
+      }
+    }
+  }
+
+  const filePath = resolveVaultPath(config.vaultPath, draft.notePath);
+  if (draft.baseHash === null) {
+    try {
+      await createFileAtomic(filePath, content);
+      await discardDraft(config, draft.id);
+      return { status: "written", notePath: draft.notePath };
+    } catch (error) {
+      // Created since review, merged below like an edit made in the meantime
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+  }
+
+  const currentContent = await fs.readFile(filePath, "utf8").catch((error: unknown) => {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  });
+  if (currentContent === null) {
+    throw new Error(`"${draft.notePath}" was deleted or moved since it was reviewed`);
+  }
+
+  if (hashContent(currentContent) !== draft.baseHash) {
+    const { content: merged, conflicts } = mergeThreeWay(draft.baseContent ?? "", content, currentContent);
+    // The next confirmation is checked against what is on disk now
+    await saveDraft(config, {
+      ...draft,
+      content: merged,
+      baseHash: hashContent(currentContent),
+      baseContent: currentContent
+    });
+    return { status: "conflict", notePath: draft.notePath, currentContent, merged, conflicts };
+  }
+
+  await writeNoteWithHistory(config, draft.notePath, draft.tool, content);
+  await discardDraft(config, draft.id);
+  return { status: "written", notePath: draft.notePath };
+}
@@ -1,153 +1,405 @@
-import { OpenAIEmbeddings } from "@langchain/openai";
 import { Document } from "@langchain/core/documents";
-import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
+import type { VectorStore } from "@langchain/core/vectorstores";
+import { Embeddings } from "@langchain/core/embeddings";
 import fs from "fs/promises";
 import path from "path";
 import { Chroma } from "@langchain/community/vectorstores/chroma";
+import { LocalVectorStore } from "./vectorStore";
+import { extractTags, isVaultWatched, listIndexedNotes, parseFrontmatter } from "./vault";
+import { chunkMarkdown, sectionLink } from "./chunking";
+import { hashContent } from "./files";
+import { isPrivateNote, prepareOutboundText, recordOutbound, redactText, removePrivateBlocks } from "./privacy";
+import { getConfig, isIndexedPath, serviceDataPath, VaultConfig } from "./config";
+import { getEmbeddingModelId, getEmbeddings, getModelSettings } from "./providers";
+import { currentTool } from "./usage";
 
-const VAULT_PATH = process.env.VAULT_PATH || '/Users/rami/Documents/Obsidian';
+interface ManifestChunk {
+    id: string;
+    hash: string;
+}
+
+interface ManifestEntry {
+    hash: string;
+    mtimeMs: number;
+    chunks: ManifestChunk[];
+}
 
 /**
- * Load all markdown notes from your vault folder.
- * Adjust the file extension filter if necessary.
+ * Records what has been embedded for each note, keyed by vault-relative path,
+ * so that only changed notes and chunks are sent to the embedding model.
  */
-export async function loadVaultNotes(vaultPath: string): Promise<Document[]> {
-    const docs: Document[] = [];
-    const splitter = new RecursiveCharacterTextSplitter({
-        chunkSize: 4000,
-        chunkOverlap: 200,
-    });
+interface IndexManifest {
+    version: 2;
+    backend: string;
+    model: string;
+    /** Hash of the privacy settings the notes were prepared with */
+    privacy: string;
+    notes: Record<string, ManifestEntry>;
+}
 
-    const constraints = (filePath: string) => {
-        const parts = filePath.split(path.sep);
-        return parts.some(part => part.startsWith(".") || part.startsWith("_") || part.startsWith("My Calendar") || part.startsWith("Hidden") || part.startsWith("Essays") || part.startsWith("USV"));
-    };
-
-    const selectedDirs = new Set<string>(["My Greenhouse", "My Thoughts"]);
-
-    // Function to remove YAML frontmatter from markdown content
-    const removeYAMLFrontmatter = (content: string): string => {
-        const lines = content.split('\n');
-        if (lines[0]?.trim() === '---') {
-            const closingIndex = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
-            if (closingIndex !== -1) {
-                // Return content after the closing '---', skipping an extra newline
-                return lines.slice(closingIndex + 1).join('\n').trim();
-            }
-        }
-        return content;
-    };
-
-    const visit = async (dirPath: string) => {
-        const files = await fs.readdir(dirPath);
-        for (const file of files) {
-            const filePath = path.join(dirPath, file);
-            const stat = await fs.stat(filePath);
-            if (stat.isDirectory() && selectedDirs.has(file)) {
-                console.log("filePath:", filePath);
-                await visit(filePath);
-            } else if (file.endsWith(".md")) {
-                let content = await fs.readFile(filePath, "utf8");
-                
-                // Remove YAML frontmatter if it exists
-                content = removeYAMLFrontmatter(content);
-                
-                // Only process if there's content after removing frontmatter
-                if (content.trim()) {
-                    // Split the content into smaller chunks
-                    const chunks = await splitter.createDocuments([content]);
-                    // Add metadata to each chunk
-                    chunks.forEach((chunk, index) => {
-                        chunk.metadata = {
-                            fileName: file,
-                            chunkIndex: index,
-                            totalChunks: chunks.length
-                        };
-                    });
-                    docs.push(...chunks);
-                }
-            }
+interface EmbeddingIndex {
+    vectorStore: VectorStore;
+    manifest: IndexManifest;
+    manifestPath: string;
+    syncing?: Promise<void>;
+    /** Whether the whole vault has been synced since the index was opened */
+    synced?: boolean;
+}
+
+const indexes = new Map<string, Promise<EmbeddingIndex>>();
+// Notes synced between saves of the index during a full sync
+const SAVE_EVERY_NOTES = 50;
+
+/**
+ * Split a note into embeddable chunks along its headings, with metadata
+ * pointing back to the note and the section each chunk comes from.
+ * Metadata values are kept to strings and numbers, which is all Chroma stores.
+ */
+export async function chunkNote(notePath: string, content: string): Promise<Document[]> {
+    const title = path.posix.basename(notePath, ".md");
+    const tags = extractTags("", parseFrontmatter(content.replace(/\r\n/g, "\n")).frontmatter);
+    const chunks = chunkMarkdown(content);
+
+    return chunks.map((chunk, index) => new Document({
+        pageContent: chunk.text,
+        metadata: {
+            path: notePath,
+            fileName: path.posix.basename(notePath),
+            title,
+            heading: chunk.headingPath.join(" > "),
+            link: sectionLink(title, chunk.headingPath),
+            tags: tags.join(","),
+            startLine: chunk.startLine,
+            endLine: chunk.endLine,
+            chunkIndex: index,
+            totalChunks: chunks.length
         }
+    }));
+}
+
+/**
+ * Chunk a note the way it is sent to the embedding model: nothing for private
+ * notes, and private blocks and configured patterns removed from the rest.
+ */
+async function prepareNoteChunks(config: VaultConfig, notePath: string, content: string): Promise<{ chunks: Document[]; redactions: number }> {
+    const { frontmatter, body } = parseFrontmatter(content.replace(/\r\n/g, "\n"));
+    if (isPrivateNote(config, notePath, frontmatter, body)) {
+        return { chunks: [], redactions: 0 };
+    }
+
+    let redactions = 0;
+    const chunks = (await chunkNote(notePath, removePrivateBlocks(content))).map(chunk => {
+        const redacted = redactText(config, chunk.pageContent);
+        redactions += redacted.redactions;
+        chunk.pageContent = redacted.text;
+        return chunk;
+    });
+    return { chunks, redactions };
+}
+
+/**
+ * Load all markdown notes from your vault folder, split into chunks.
+ */
+export async function loadVaultNotes(config: VaultConfig): Promise<Document[]> {
+    const docs: Document[] = [];
+    for (const notePath of await listIndexedNotes(config)) {
+        const content = await fs.readFile(path.join(config.vaultPath, notePath), "utf8");
+        docs.push(...(await prepareNoteChunks(config, notePath, content)).chunks);
     }
-    await visit(vaultPath);
     return docs;
 }
 
 /**
- * Create a vector store for your vault notes.
- * This function computes embeddings (using OpenAIEmbeddings in this example)
- * for each note and stores them in an in-memory vector store.
+ * Prepares search queries the same way as note content before they are
+ * embedded, and records them in the audit log. Note chunks are prepared and
+ * recorded when they are indexed, so documents pass straight through.
  */
-export async function createVectorStore(vaultPath: string): Promise<Chroma> {
-    console.log("Creating vector store...", vaultPath);
-    const docs = await loadVaultNotes(vaultPath);
-    const embeddings = new OpenAIEmbeddings({
-        model: "text-embedding-3-large",
-        apiKey: process.env.OPENAI_API_KEY
-    });
+class OutboundEmbeddings extends Embeddings {
+    constructor(private inner: Embeddings, private config: VaultConfig) {
+        super({});
+    }
 
-    const collectionName = "rami-journal-embeddings";
-    const vectorStore = new Chroma(embeddings, {
-        collectionName,
-        url: "http://localhost:8000"
-    });
+    embedDocuments(documents: string[]): Promise<number[][]> {
+        return this.inner.embedDocuments(documents);
+    }
 
-    // Ensure collection exists and get its content
-    let existingDocs;
-    try {
-        // First, ensure the collection exists
+    async embedQuery(document: string): Promise<number[]> {
+        const { text, redactions } = prepareOutboundText(this.config, document);
+        await recordEmbedding(this.config, "embed_query", [], redactions, text);
+        return this.inner.embedQuery(text);
+    }
+}
+
+async function recordEmbedding(config: VaultConfig, request: string, notes: string[], redactions: number, text: string): Promise<void> {
+    const settings = getModelSettings("embeddings");
+    await recordOutbound(config, {
+        kind: "embedding",
+        task: "embeddings",
+        tool: currentTool(),
+        request,
+        provider: settings.provider,
+        model: settings.model,
+        notes,
+        redactions
+    }, text);
+}
+
+async function openVectorStore(config: VaultConfig): Promise<{ vectorStore: VectorStore; backend: string }> {
+    const embeddings = new OutboundEmbeddings(getEmbeddings(), config);
+
+    const backend = process.env.VECTOR_STORE || "local";
+    if (backend === "chroma") {
+        const vectorStore = new Chroma(embeddings, {
+            collectionName: process.env.CHROMA_COLLECTION || "obsidian-notes",
+            url: process.env.CHROMA_URL || "http://localhost:8000"
+        });
         await vectorStore.ensureCollection();
+        return { vectorStore, backend };
+    }
+    if (backend !== "local") {
+        throw new Error(`Unknown VECTOR_STORE "${backend}", expected "local" or "chroma"`);
+    }
 
-        // Then get the collection's content
-        const collection = vectorStore.collection;
-        if (collection) {
-            existingDocs = await collection.get();
-            console.log("Existing collection size:", existingDocs?.ids?.length || 0);
+    const storePath = serviceDataPath(config, "vectors.json");
+    return { vectorStore: await LocalVectorStore.load(embeddings, storePath), backend };
+}
+
+function privacySettingsHash(config: VaultConfig): string {
+    return hashContent(JSON.stringify(config.privacy)).slice(0, 16);
+}
+
+async function loadManifest(config: VaultConfig, manifestPath: string, backend: string): Promise<IndexManifest> {
+    const model = getEmbeddingModelId();
+    const privacy = privacySettingsHash(config);
+    const empty: IndexManifest = { version: 2, backend, model, privacy, notes: {} };
+    try {
+        const manifest: IndexManifest = JSON.parse(await fs.readFile(manifestPath, "utf8"));
+        // Vectors from another model, store or chunking version can't be reused, and notes
+        // prepared under other privacy settings may hold content that must no longer be indexed
+        if (manifest.version !== 2 || manifest.backend !== backend || manifest.model !== model || manifest.privacy !== privacy) {
+            console.log("Embedding index settings changed, rebuilding index...");
+            return empty;
         }
+        return manifest;
     } catch (error) {
-        console.error("Error accessing collection:", error);
-        existingDocs = { ids: [] };
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+            console.error("Failed to read index manifest, rebuilding index:", error);
+        }
+        return empty;
+    }
+}
+
+/**
+ * Write the local store's vectors and then the manifest that describes them,
+ * so the two files on disk always come from the same point of a sync.
+ */
+async function saveIndex(index: EmbeddingIndex): Promise<void> {
+    if (index.vectorStore instanceof LocalVectorStore) {
+        await index.vectorStore.flush();
+    }
+    await fs.mkdir(path.dirname(index.manifestPath), { recursive: true });
+    const tempPath = `${index.manifestPath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(index.manifest, null, 2), "utf8");
+    await fs.rename(tempPath, index.manifestPath);
+}
+
+/**
+ * Give each chunk an ID derived from its note path and content hash, so an
+ * unchanged chunk keeps its ID (and its embedding) when other parts of the note change.
+ */
+function identifyChunks(notePath: string, chunks: Document[]): ManifestChunk[] {
+    const seen = new Map<string, number>();
+    return chunks.map(chunk => {
+        const hash = hashContent(chunk.pageContent);
+        const occurrence = seen.get(hash) ?? 0;
+        seen.set(hash, occurrence + 1);
+        return { id: `${notePath}::${hash.slice(0, 16)}${occurrence ? `_${occurrence}` : ""}`, hash };
+    });
+}
+
+async function syncNote(index: EmbeddingIndex, config: VaultConfig, notePath: string): Promise<boolean> {
+    const filePath = path.join(config.vaultPath, notePath);
+    const stat = await fs.stat(filePath);
+    const entry = index.manifest.notes[notePath];
+    if (entry && entry.mtimeMs === stat.mtimeMs) {
+        return false;
+    }
+
+    const content = await fs.readFile(filePath, "utf8");
+    const hash = hashContent(content);
+    if (entry && entry.hash === hash) {
+        // Touched but not edited
+        entry.mtimeMs = stat.mtimeMs;
+        return true;
     }
 
-    // Create a Set of existing file names
-    const existingFileNames = new Set(existingDocs?.ids?.map((id: string) => {
-        console.log("Document ID:", id);
+    const { chunks, redactions } = await prepareNoteChunks(config, notePath, content);
+    const chunkIds = identifyChunks(notePath, chunks);
+    const previousIds = new Set(entry?.chunks.map(chunk => chunk.id) ?? []);
+    const currentIds = new Set(chunkIds.map(chunk => chunk.id));
+
+    const staleIds = [...previousIds].filter(id => !currentIds.has(id));
+    if (staleIds.length > 0) {
+        await index.vectorStore.delete({ ids: staleIds });
+    }
+
+    const newChunks = chunks.filter((_, i) => !previousIds.has(chunkIds[i].id));
+    if (newChunks.length > 0) {
+        console.log(`Embedding ${newChunks.length} changed chunks of ${notePath}...`);
+        await recordEmbedding(config, "embed_notes", [notePath], redactions, newChunks.map(chunk => chunk.pageContent).join("\n\n"));
+        await index.vectorStore.addDocuments(newChunks, {
+            ids: chunkIds.filter(chunk => !previousIds.has(chunk.id)).map(chunk => chunk.id)
+        });
+    }
+
+    index.manifest.notes[notePath] = { hash, mtimeMs: stat.mtimeMs, chunks: chunkIds };
+    return true;
+}
+
+async function removeNote(index: EmbeddingIndex, notePath: string): Promise<void> {
+    const entry = index.manifest.notes[notePath];
+    if (!entry) return;
+    if (entry.chunks.length > 0) {
+        await index.vectorStore.delete({ ids: entry.chunks.map(chunk => chunk.id) });
+    }
+    delete index.manifest.notes[notePath];
+}
+
+/**
+ * Bring the embedding index in line with the vault: embed new and edited
+ * chunks and purge chunks of notes that were edited or deleted.
+ */
+async function syncEmbeddingIndex(index: EmbeddingIndex, config: VaultConfig): Promise<void> {
+    const notePaths = await listIndexedNotes(config);
+    const current = new Set(notePaths);
+    let changed = false;
+    let unsaved = 0;
+
+    for (const notePath of notePaths) {
         try {
-            return id.split('_')[0];
-        } catch {
-            return id;
+            if (await syncNote(index, config, notePath)) {
+                changed = true;
+                // A first sync of a large vault is saved along the way, so an interruption doesn't lose it all
+                if (++unsaved >= SAVE_EVERY_NOTES) {
+                    await saveIndex(index);
+                    unsaved = 0;
+                }
+            }
+        } catch (error) {
+            console.error(`Failed to index ${notePath}:`, error);
         }
-    }) || []);
+    }
 
-    // Filter out documents that are already in the store
-    const newDocs = docs.filter(doc => !existingFileNames.has(doc.metadata.fileName));
+    for (const notePath of Object.keys(index.manifest.notes)) {
+        if (!current.has(notePath)) {
+            console.log(`Removing deleted note ${notePath} from the index...`);
+            await removeNote(index, notePath);
+            changed = true;
+        }
+    }
 
-    if (newDocs.length > 0) {
-        console.log(`Adding ${newDocs.length} new documents to vector store...`);
-        await vectorStore.addDocuments(newDocs, {
-            ids: newDocs.map(doc => `${doc.metadata.fileName}_${doc.metadata.chunkIndex}`)
-        });
-    } else {
-        console.log("No new documents to add to vector store.");
+    if (changed) {
+        await saveIndex(index);
     }
+    index.synced = true;
+}
 
-    return vectorStore;
+/**
+ * Embed or purge notes that were created, changed or deleted. Does nothing
+ * until the index has been opened and synced by a first search, which picks
+ * up every change anyway.
+ */
+export async function updateEmbeddingIndex(config: VaultConfig, notePaths: string[]): Promise<void> {
+    const opening = indexes.get(config.vaultPath);
+    if (!opening) return;
+    const index = await opening;
+
+    // One change at a time, so the manifest is never updated from two places
+    while (index.syncing) {
+        await index.syncing;
+    }
+    if (!index.synced) return;
+    index.syncing = (async () => {
+        let changed = false;
+        for (const notePath of notePaths) {
+            try {
+                if (isIndexedPath(config, notePath)) {
+                    changed = await syncNote(index, config, notePath) || changed;
+                    continue;
+                }
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+            }
+            if (index.manifest.notes[notePath]) {
+                await removeNote(index, notePath);
+                changed = true;
+            }
+        }
+        if (changed) {
+            await saveIndex(index);
+        }
+    })().finally(() => {
+        index.syncing = undefined;
+    });
+    await index.syncing;
+}
+
+async function clearVectorStore(vectorStore: VectorStore): Promise<void> {
+    if (vectorStore instanceof LocalVectorStore) {
+        await vectorStore.clear();
+        await vectorStore.flush();
+    } else if (vectorStore instanceof Chroma) {
+        const existing = await vectorStore.collection?.get();
+        if (existing?.ids?.length) {
+            await vectorStore.delete({ ids: existing.ids });
+        }
+    }
+}
+
+async function openEmbeddingIndex(config: VaultConfig): Promise<EmbeddingIndex> {
+    const { vectorStore, backend } = await openVectorStore(config);
+    const manifestPath = serviceDataPath(config, `manifest.${backend}.json`);
+    const manifest = await loadManifest(config, manifestPath, backend);
+
+    if (Object.keys(manifest.notes).length === 0) {
+        // Without a manifest there's no telling which stored vectors are current, so start from scratch
+        await clearVectorStore(vectorStore);
+    }
+
+    return { vectorStore, manifest, manifestPath };
 }
 
 /**
- * Save the vector store to a JSON file locally.
- * (This is a simple approach; for larger datasets, consider a dedicated vector DB.)
+ * Get the vector store for a vault, incrementally updated to match the notes on disk.
+ * The store is opened once per process; later calls only re-embed what changed.
  */
-export async function saveVectorStore(vectorStore: Chroma, savePath: string): Promise<void> {
-    const storeData = vectorStore.embeddings;
-    await fs.writeFile(savePath, JSON.stringify(storeData, null, 2), "utf8");
+export async function getVectorStore(config: VaultConfig): Promise<VectorStore> {
+    const { vaultPath } = config;
+    let opening = indexes.get(vaultPath);
+    if (!opening) {
+        opening = openEmbeddingIndex(config);
+        indexes.set(vaultPath, opening);
+        opening.catch(() => indexes.delete(vaultPath));
+    }
+    const index = await opening;
+
+    // Concurrent callers share a single sync instead of embedding the same chunks twice.
+    // A watched vault only needs the first sync; the watcher reports every change after it.
+    if (!index.syncing && !(index.synced && isVaultWatched(vaultPath))) {
+        index.syncing = syncEmbeddingIndex(index, config).finally(() => {
+            index.syncing = undefined;
+        });
+    }
+    await index.syncing;
+
+    return index.vectorStore;
 }
 
 /**
  * Given a query text, find the most similar notes in the vector store.
  */
 export async function findSimilarNotes(
-    vectorStore: Chroma,
+    vectorStore: VectorStore,
     queryText: string,
     topK: number = 20
 ) {
@@ -155,19 +407,29 @@ export async function findSimilarNotes(
     return results;
 }
 
-// // Example usage:
-(async () => {
-    // Check if a stored vector store exists; if so, load it. Otherwise, create it.
-    let vectorStore: Chroma;
-    // try {
-    //     await fs.access(vectorStoreFile);
-    //     console.log("Loading existing vector store from disk...");
-    //     vectorStore = await loadVectorStore(vectorStoreFile);
-    // } catch (e) {
-    //     console.log("Creating new vector store...");
-    vectorStore = await createVectorStore(VAULT_PATH);
-    // await saveVectorStore(vectorStore, vectorStoreFile);
-    // }
+/**
+ * Like findSimilarNotes, but keeps only the best matching chunk of each note,
+ * so one long note can't take up every result. Results stay in rank order.
+ */
+export async function findSimilarNoteChunks(
+    vectorStore: VectorStore,
+    queryText: string,
+    topK: number = 10
+): Promise<[Document, number][]> {
+    // Fetch extra chunks, since several of them usually come from the same notes
+    const results = await findSimilarNotes(vectorStore, queryText, topK * 4);
+    const seenPaths = new Set<string>();
+    return results.filter(([doc]) => {
+        const notePath = doc.metadata.path ?? doc.metadata.fileName;
+        if (seenPaths.has(notePath)) return false;
+        seenPaths.add(notePath);
+        return true;
+    }).slice(0, topK);
+}
+
+// Example usage, run this file directly to try the index against your vault
+async function main() {
+    const vectorStore = await getVectorStore(await getConfig());
 
     // Now, given some query content (for your current note), find similar notes.
     const queryText = `- Finding your life partner is one of the most important parts of anyone's life.
@@ -190,17 +452,15 @@ export async function findSimilarNotes(
 	- showing the perspective of women that a lot of men are not aware of or don't consider
 		- conducting interviews with women
 `;
-    const similarNotes = await findSimilarNotes(vectorStore, queryText);
+    const similarNotes = await findSimilarNoteChunks(vectorStore, queryText);
     console.log("Found", similarNotes.length, "similar notes:");
-    const seenDocs = new Set<string>();
-
 
     similarNotes.forEach(([doc, score]) => {
-        const key = `${doc.metadata.fileName}-${doc.pageContent.substring(0, 50)}`;
-        if (!seenDocs.has(key)) {
-            seenDocs.add(key);
-            console.log(`\n[Score: ${(score * 100).toFixed(2)}%] ${doc.metadata.fileName}:`);
-            console.log(`${doc.pageContent.substring(0, 50)}...`);
-        }
+        console.log(`\n[Score: ${(score * 100).toFixed(2)}%] ${doc.metadata.link ?? doc.metadata.fileName}:`);
+        console.log(`${doc.pageContent.substring(0, 50)}...`);
     });
-})();
\ No newline at end of file
+}
+
+if (require.main === module) {
+    main();
+}
@@ -0,0 +1,102 @@
+import fs from "fs/promises";
+import path from "path";
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * Prefix of the temporary files the service writes next to their targets.
+ * They start with a dot so Obsidian (and the vault indexes) ignore them.
+ */
+export const TEMP_FILE_PREFIX = ".obsidian-service-";
+
+function tempPathFor(filePath: string): string {
+  return path.join(path.dirname(filePath), `${TEMP_FILE_PREFIX}${randomBytes(6).toString("hex")}.tmp`);
+}
+
+/**
+ * Write a file atomically: the content goes to a temporary file in the same
+ * folder first and is then renamed over the target, so Obsidian never sees a
+ * half-written note. Missing folders are created.
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = tempPathFor(filePath);
+  try {
+    await fs.writeFile(tempPath, content, "utf8");
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Atomically create a new file, failing with an `EEXIST` error instead of
+ * overwriting when the file already exists (e.g. created meanwhile by Obsidian).
+ */
+export async function createFileAtomic(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = tempPathFor(filePath);
+  try {
+    await fs.writeFile(tempPath, content, "utf8");
+    // Unlike rename, link refuses to replace an existing file
+    await fs.link(tempPath, filePath);
+  } finally {
+    await fs.rm(tempPath, { force: true });
+  }
+}
+
+export async function fileExists(filePath: string): Promise<boolean> {
+  return fs.access(filePath).then(() => true).catch(() => false);
+}
+
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Turn a free-form title into a safe note file name (without extension):
+ * characters Obsidian doesn't allow in file names and path separators are
+ * replaced, so a title can never point outside its folder.
+ */
+export function sanitizeFileName(title: string): string {
+  const name = title
+    .replace(/[\\/:*?"<>|#^[\]\u0000-\u001f]/g, " ")
+    .replace(/\s+/g, " ")
+    // Leading dots would hide the note or form ".." segments
+    .replace(/^[\s.]+/, "")
+    .slice(0, 150)
+    .trim();
+  return name || "Untitled";
+}
+
+/**
+ * Resolve a vault-relative path to an absolute one, refusing anything that
+ * would end up outside the vault (e.g. "../" segments or absolute paths) or
+ * inside hidden folders such as `.obsidian`.
+ */
+export function resolveVaultPath(vaultPath: string, notePath: string): string {
+  const root = path.resolve(vaultPath);
+  const resolved = path.resolve(root, notePath);
+  if (path.isAbsolute(notePath) || (resolved !== root && !resolved.startsWith(root + path.sep))) {
+    throw new Error(`Path "${notePath}" is outside the vault`);
+  }
+  if (path.relative(root, resolved).split(path.sep).some(part => part.startsWith("."))) {
+    throw new Error(`Path "${notePath}" points into a hidden folder`);
+  }
+  return resolved;
+}
+
+/**
+ * Find a vault-relative note path that isn't taken yet, appending " 1", " 2", ...
+ * to the file name like Obsidian does.
+ */
+export async function uniqueNotePath(vaultPath: string, notePath: string): Promise<string> {
+  const extension = path.posix.extname(notePath);
+  const base = notePath.slice(0, notePath.length - extension.length);
+  for (let i = 0; ; i++) {
+    const candidate = i === 0 ? notePath : `${base} ${i}${extension}`;
+    if (!(await fileExists(resolveVaultPath(vaultPath, candidate)))) {
+      return candidate;
+    }
+  }
+}
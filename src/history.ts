@@ -0,0 +1,115 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { serviceDataPath, VaultConfig } from "./config";
+import { hashContent, resolveVaultPath, writeFileAtomic } from "./files";
+import { DiffSummary, summarizeDiff } from "./diff";
+
+/**
+ * A copy of a note taken right before the service overwrote it.
+ */
+export interface NoteVersion {
+  id: string;
+  notePath: string;
+  /** Tool whose write replaced this version */
+  tool: string;
+  /** When the version was replaced */
+  timestamp: string;
+  hash: string;
+  content: string;
+  /** Lines the write added to and removed from this version */
+  diff: DiffSummary;
+}
+
+export type NoteVersionInfo = Omit<NoteVersion, "content">;
+
+// Older versions beyond this are pruned so the history doesn't grow without bound
+const MAX_VERSIONS_PER_NOTE = 50;
+
+// Notes get one folder each, named after their path so any file name is safe on disk
+function historyDir(config: VaultConfig, notePath: string): string {
+  return serviceDataPath(config, "history", hashContent(notePath).slice(0, 32));
+}
+
+function versionPath(config: VaultConfig, notePath: string, id: string): string {
+  if (!/^[0-9a-z]+-[0-9a-f]{8}$/.test(id)) {
+    throw new Error(`Invalid version ID "${id}"`);
+  }
+  return path.join(historyDir(config, notePath), `${id}.json`);
+}
+
+async function readVersions(config: VaultConfig, notePath: string): Promise<NoteVersion[]> {
+  const dir = historyDir(config, notePath);
+  const entries = await fs.readdir(dir).catch(() => [] as string[]);
+  const versions: NoteVersion[] = [];
+  for (const entry of entries.filter(entry => entry.endsWith(".json"))) {
+    try {
+      versions.push(JSON.parse(await fs.readFile(path.join(dir, entry), "utf8")));
+    } catch (error) {
+      console.warn(`Skipping unreadable note version ${entry}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  // Newest first
+  return versions.sort((a, b) => b.timestamp.localeCompare(a.timestamp) || b.id.localeCompare(a.id));
+}
+
+/**
+ * Save the current content of a note before the service replaces it with
+ * `nextContent`. Does nothing when the note doesn't exist yet or wouldn't change.
+ */
+export async function snapshotNote(config: VaultConfig, notePath: string, tool: string, nextContent: string): Promise<NoteVersionInfo | undefined> {
+  const currentContent = await fs.readFile(resolveVaultPath(config.vaultPath, notePath), "utf8").catch((error: unknown) => {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  });
+  if (currentContent === undefined || currentContent === nextContent) {
+    return undefined;
+  }
+
+  // Time-ordered IDs keep versions taken within the same millisecond apart
+  const id = `${Date.now().toString(36)}-${randomBytes(4).toString("hex")}`;
+  const version: NoteVersion = {
+    id,
+    notePath,
+    tool,
+    timestamp: new Date().toISOString(),
+    hash: hashContent(currentContent),
+    content: currentContent,
+    diff: summarizeDiff(currentContent, nextContent)
+  };
+  await writeFileAtomic(versionPath(config, notePath, id), JSON.stringify(version, null, 2));
+
+  const versions = await readVersions(config, notePath);
+  for (const old of versions.slice(MAX_VERSIONS_PER_NOTE)) {
+    await fs.rm(versionPath(config, notePath, old.id), { force: true });
+  }
+
+  const { content, ...info } = version;
+  return info;
+}
+
+/**
+ * List the saved versions of a note, newest first.
+ */
+export async function listNoteVersions(config: VaultConfig, notePath: string): Promise<NoteVersionInfo[]> {
+  return (await readVersions(config, notePath)).map(({ content, ...info }) => info);
+}
+
+export async function getNoteVersion(config: VaultConfig, notePath: string, id: string): Promise<NoteVersion> {
+  try {
+    return JSON.parse(await fs.readFile(versionPath(config, notePath, id), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Version "${id}" of "${notePath}" not found`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a note, keeping its previous content in the history first.
+ */
+export async function writeNoteWithHistory(config: VaultConfig, notePath: string, tool: string, content: string): Promise<void> {
+  await snapshotNote(config, notePath, tool, content);
+  await writeFileAtomic(resolveVaultPath(config.vaultPath, notePath), content);
+}
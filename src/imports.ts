@@ -0,0 +1,426 @@
+import fs from "fs/promises";
+import path from "path";
+import { Temporal } from "@js-temporal/polyfill";
+import { serviceDataPath, userTimeZone, VaultConfig } from "./config";
+import { createFileAtomic, hashContent, resolveVaultPath, sanitizeFileName, uniqueNotePath, writeFileAtomic } from "./files";
+import { writeNoteWithHistory } from "./history";
+import { createDailyNote, structureContent } from "./utils";
+import { composeNote, toVaultPath } from "./vault";
+import { TranscriptProcessing } from "./transcripts";
+
+export type TranscriptFormat = "text" | "srt" | "vtt" | "json";
+
+/**
+ * A piece of a recording. Times are seconds from the start of the recording.
+ */
+export interface TranscriptSegment {
+  start?: number;
+  end?: number;
+  speaker?: string;
+  text: string;
+}
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  segments: TranscriptSegment[];
+  /** When the recording was made, if the file name or metadata says so */
+  recordedAt?: Temporal.PlainDateTime;
+}
+
+/**
+ * Where imported notes go: a new note per recording, or a section of the
+ * daily note of the day it was recorded.
+ */
+export type ImportMode = "note" | "daily";
+
+export interface ImportResult {
+  file: string;
+  status: "imported" | "skipped" | "failed";
+  notePath?: string;
+  title?: string;
+  recordedAt?: string;
+  /** How the recording time was found */
+  recordedFrom?: "file name" | "metadata" | "modified time";
+  segments?: number;
+  /** Length of the recording in seconds, when the segments are timed */
+  duration?: number;
+  processing?: TranscriptProcessing;
+  /** Why the file was skipped or failed */
+  reason?: string;
+}
+
+interface ImportRecord {
+  file: string;
+  notePath: string;
+  importedAt: string;
+}
+
+export const TRANSCRIPT_EXTENSIONS: Record<string, TranscriptFormat> = {
+  ".txt": "text",
+  ".srt": "srt",
+  ".vtt": "vtt",
+  ".json": "json"
+};
+
+// Cues further apart than this start a new paragraph
+const PARAGRAPH_GAP_SECONDS = 3;
+
+const CUE_TIMING = /^\s*((?:\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+// "Speaker 1  0:03" or "Rami 1:02:03" on a line of their own, as exported by Otter and similar apps
+const SPEAKER_LINE = /^[ \t]*(Speaker[ \t]*\d*|Unknown Speaker|\p{Lu}[\p{L}.'-]*(?:[ \t]+\p{Lu}[\p{L}.'-]*){0,2})[ \t]+(\d{1,2}:\d{2}(?::\d{2})?)[ \t]*$/u;
+
+/**
+ * Parse "01:02:03,500", "02:03.5" or "2:03" into seconds.
+ */
+function parseTimestamp(value: string): number {
+  const parts = value.replace(",", ".").split(":").map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function parseCues(content: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  for (const block of content.replace(/\r\n?/g, "\n").split(/\n[ \t]*\n/)) {
+    const lines = block.split("\n").filter(line => line.trim());
+    const timing = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timing === -1) continue;
+    const [, start, end] = lines[timing].match(CUE_TIMING)!;
+
+    let speaker: string | undefined;
+    const text = lines.slice(timing + 1).join(" ")
+      // WebVTT voice tags name the speaker
+      .replace(/<v(?:\.[^\s>]*)?\s+([^>]+)>/g, (_, name: string) => {
+        speaker ??= name.trim();
+        return "";
+      })
+      .replace(/<[^>]+>/g, "")
+      .replace(/\s+/g, " ")
+      .trim();
+    if (text) {
+      segments.push({ start: parseTimestamp(start), end: parseTimestamp(end), speaker, text });
+    }
+  }
+  return segments;
+}
+
+function parsePlainText(content: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let current: TranscriptSegment | undefined;
+  for (const line of content.replace(/\r\n?/g, "\n").split("\n")) {
+    const marker = line.match(SPEAKER_LINE);
+    if (marker) {
+      current = { speaker: marker[1], start: parseTimestamp(marker[2]), text: "" };
+      segments.push(current);
+      continue;
+    }
+    if (!current) {
+      current = { text: "" };
+      segments.push(current);
+    }
+    current.text = current.text ? `${current.text}\n${line}` : line;
+  }
+  return segments
+    .map(segment => ({ ...segment, text: segment.text.trim() }))
+    .filter(segment => segment.text);
+}
+
+function toSeconds(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && /^(?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d+)?$/.test(value.trim())) return parseTimestamp(value.trim());
+  return undefined;
+}
+
+/**
+ * Read the recording time from metadata such as `created_at`: an ISO date or
+ * date-time, or epoch seconds or milliseconds. Instants are shown in `timeZone`.
+ */
+function parseRecordedAt(value: unknown, timeZone: string): Temporal.PlainDateTime | undefined {
+  try {
+    if (typeof value === "number" && Number.isFinite(value)) {
+      const milliseconds = value < 1e11 ? value * 1000 : value;
+      return Temporal.Instant.fromEpochMilliseconds(Math.round(milliseconds))
+        .toZonedDateTimeISO(timeZone)
+        .toPlainDateTime();
+    }
+    if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+      // With an offset it's an instant, shown in local time; without one it's local already
+      return /(?:Z|[+-]\d{2}:?\d{2})$/i.test(value.trim())
+        ? Temporal.Instant.from(value.trim()).toZonedDateTimeISO(timeZone).toPlainDateTime()
+        : Temporal.PlainDateTime.from(value.trim());
+    }
+  } catch {
+    // Not a usable date
+  }
+  return undefined;
+}
+
+/**
+ * Parse the JSON exports of common transcription tools: Whisper style
+ * `{ text, segments: [...] }`, `{ utterances: [...] }`, a bare array of
+ * segments, or `{ transcript: "..." }`.
+ */
+function parseJson(content: string, timeZone: string): { segments: TranscriptSegment[]; recordedAt?: Temporal.PlainDateTime } {
+  const data = JSON.parse(content);
+  const items: unknown = Array.isArray(data) ? data : data?.segments ?? data?.utterances;
+
+  let segments: TranscriptSegment[] = [];
+  if (Array.isArray(items)) {
+    segments = items
+      .filter(item => item && typeof item.text === "string" && item.text.trim())
+      .map(item => ({
+        start: toSeconds(item.start),
+        end: toSeconds(item.end),
+        speaker: item.speaker !== undefined && item.speaker !== null ? String(item.speaker) : undefined,
+        text: item.text.trim()
+      }));
+  }
+  if (segments.length === 0) {
+    const text = typeof data?.text === "string" ? data.text : typeof data?.transcript === "string" ? data.transcript : "";
+    segments = text.trim() ? [{ text: text.trim() }] : [];
+  }
+
+  const metadata = Array.isArray(data) ? undefined
+    : data?.created_at ?? data?.createdAt ?? data?.recorded_at ?? data?.recordedAt ?? data?.date ?? data?.timestamp;
+  return { segments, recordedAt: parseRecordedAt(metadata, timeZone) };
+}
+
+/**
+ * Find a recording time in a file name such as "2025-01-15 08.30.12.txt",
+ * "Recording 20250115_083012.srt" or "Memo 2025-01-15.vtt".
+ */
+export function recordedAtFromFileName(fileName: string): Temporal.PlainDateTime | undefined {
+  const match = fileName.match(/(?<!\d)(\d{4})([-_.]?)(\d{2})\2(\d{2})(?:[ T_-]*(\d{2})[:._-]?(\d{2})(?:[:._-]?(\d{2}))?)?(?!\d)/);
+  if (!match) return undefined;
+  const [, year, , month, day, hour, minute, second] = match;
+  try {
+    return Temporal.PlainDateTime.from({
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour ?? 0),
+      minute: Number(minute ?? 0),
+      second: Number(second ?? 0)
+    }, { overflow: "reject" });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse a transcript file into timed segments, by its extension. Recording
+ * times given as instants are shown in `timeZone`.
+ */
+export function parseTranscriptFile(fileName: string, content: string, timeZone: string): ParsedTranscript {
+  const format = TRANSCRIPT_EXTENSIONS[path.extname(fileName).toLowerCase()] ?? "text";
+  switch (format) {
+    case "srt":
+    case "vtt":
+      return { format, segments: parseCues(content) };
+    case "json":
+      return { format, ...parseJson(content, timeZone) };
+    default:
+      return { format, segments: parsePlainText(content) };
+  }
+}
+
+/**
+ * Join segments into the text given to the structuring pipeline. A new
+ * paragraph starts when the speaker changes or after a pause.
+ */
+export function segmentsToText(segments: TranscriptSegment[]): string {
+  let text = "";
+  let previous: TranscriptSegment | undefined;
+  for (const segment of segments) {
+    const pause = previous?.end !== undefined && segment.start !== undefined && segment.start - previous.end > PARAGRAPH_GAP_SECONDS;
+    const newSpeaker = previous !== undefined && segment.speaker !== previous.speaker;
+    const timed = segment.start !== undefined && segment.end !== undefined;
+    // Subtitle cues are fragments of sentences, anything else is a paragraph of its own
+    const separator = !previous ? "" : pause || newSpeaker || !timed ? "\n\n" : " ";
+    text += separator + segment.text;
+    previous = segment;
+  }
+  return text.trim();
+}
+
+function importsPath(config: VaultConfig): string {
+  return serviceDataPath(config, "imports.json");
+}
+
+async function readImportRecords(config: VaultConfig): Promise<Record<string, ImportRecord>> {
+  try {
+    return JSON.parse(await fs.readFile(importsPath(config), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw error;
+  }
+}
+
+/**
+ * Resolve a folder or file given to import-transcripts, absolute or relative to
+ * `imports.root`. It has to stay inside the import root, also once symlinks are
+ * followed, and may not point into a hidden folder.
+ */
+export async function resolveImportPath(config: VaultConfig, importPath: string): Promise<string> {
+  if (!config.imports.root) {
+    throw new Error("No import folder configured. Set IMPORTS_ROOT or \"imports.root\" to the folder transcripts are imported from");
+  }
+  const root = await fs.realpath(config.imports.root).catch(() => config.imports.root!);
+  const resolved = path.resolve(root, importPath);
+  const real = await fs.realpath(resolved).catch(() => resolved);
+  if (real !== root && !real.startsWith(root + path.sep)) {
+    throw new Error(`Path "${importPath}" is outside the import folder ${config.imports.root}`);
+  }
+  if (path.relative(root, real).split(path.sep).some(part => part.startsWith("."))) {
+    throw new Error(`Path "${importPath}" points into a hidden folder`);
+  }
+  return real;
+}
+
+/**
+ * List the transcript files in a folder, oldest name first.
+ */
+export async function listTranscriptFiles(folder: string, recursive: boolean = false): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(folder, { withFileTypes: true })) {
+    if (entry.name.startsWith(".")) continue;
+    const entryPath = path.join(folder, entry.name);
+    if (entry.isDirectory() && recursive) {
+      files.push(...await listTranscriptFiles(entryPath, true));
+    } else if (entry.isFile() && TRANSCRIPT_EXTENSIONS[path.extname(entry.name).toLowerCase()]) {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Move the headings of a structured note one level down, so it fits under a
+ * section of the daily note.
+ */
+function demoteHeadings(content: string): string {
+  return content.replace(/^(#{1,5})(?=[ \t])/gm, "#$1");
+}
+
+async function importFile(
+  config: VaultConfig,
+  filePath: string,
+  content: string,
+  mode: ImportMode,
+  timeZone: string
+): Promise<ImportResult> {
+  const fileName = path.basename(filePath);
+  const parsed = parseTranscriptFile(fileName, content, timeZone);
+  const text = segmentsToText(parsed.segments);
+  if (!text) {
+    return { file: filePath, status: "skipped", reason: "No transcript text found" };
+  }
+
+  // Prefer the name the recording app gave the file, then its metadata, then when it was saved
+  let recordedFrom: ImportResult["recordedFrom"] = "file name";
+  let recordedAt = recordedAtFromFileName(fileName);
+  if (!recordedAt && parsed.recordedAt) {
+    recordedAt = parsed.recordedAt;
+    recordedFrom = "metadata";
+  }
+  if (!recordedAt) {
+    const stat = await fs.stat(filePath);
+    recordedAt = Temporal.Instant.fromEpochMilliseconds(Math.round(stat.mtimeMs))
+      .toZonedDateTimeISO(timeZone)
+      .toPlainDateTime();
+    recordedFrom = "modified time";
+  }
+  const recorded = recordedAt.toString({ smallestUnit: "second" });
+
+  const { title, content: body, tags, aliases, summary, processing } = await structureContent(config, text);
+
+  let notePath: string;
+  if (mode === "daily") {
+    notePath = toVaultPath(config.vaultPath, await createDailyNote(config, recordedAt.toPlainDate(), timeZone));
+    const existing = await fs.readFile(resolveVaultPath(config.vaultPath, notePath), "utf8");
+    const time = recordedAt.toPlainTime().toString({ smallestUnit: "minute" });
+    const section = `## ${time} ${title}\n${summary}\n\n${demoteHeadings(body)}`;
+    await writeNoteWithHistory(config, notePath, "import-transcripts", `${existing.trimEnd()}\n\n${section}\n`);
+  } else {
+    notePath = await uniqueNotePath(config.vaultPath, path.posix.join(config.newNotes.folder, `${sanitizeFileName(title)}.md`));
+    const frontmatter = {
+      aliases,
+      tags,
+      summary,
+      created: recorded,
+      source: "import-transcripts",
+      source_file: fileName
+    };
+    await createFileAtomic(resolveVaultPath(config.vaultPath, notePath), composeNote(frontmatter, `${body}\n`));
+  }
+
+  const timed = parsed.segments.filter(segment => segment.end !== undefined || segment.start !== undefined);
+  const last = timed[timed.length - 1];
+  return {
+    file: filePath,
+    status: "imported",
+    notePath,
+    title,
+    recordedAt: recorded,
+    recordedFrom,
+    segments: parsed.segments.length,
+    duration: last ? Math.round(last.end ?? last.start!) : undefined,
+    processing
+  };
+}
+
+/**
+ * Import transcript files into the vault through the structuring pipeline.
+ * Files are recognized by the hash of their content, so files imported
+ * before are skipped even if they were renamed or moved. At most `limit`
+ * files are imported per call; one failing file doesn't stop the others.
+ * Recording times are local times in `timeZone`.
+ */
+export async function importTranscripts(
+  config: VaultConfig,
+  files: string[],
+  mode: ImportMode,
+  limit: number,
+  timeZone: string = userTimeZone(config),
+  onProgress: (message: string) => void = message => console.log(message)
+): Promise<{ results: ImportResult[]; remaining: number }> {
+  const records = await readImportRecords(config);
+  const results: ImportResult[] = [];
+  let imported = 0;
+  let remaining = 0;
+
+  for (const filePath of files) {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, "utf8");
+    } catch (error) {
+      results.push({ file: filePath, status: "failed", reason: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    const hash = hashContent(content);
+    const record = records[hash];
+    if (record) {
+      results.push({ file: filePath, status: "skipped", notePath: record.notePath, reason: `Already imported on ${record.importedAt.slice(0, 10)}` });
+      continue;
+    }
+    if (imported >= limit) {
+      remaining++;
+      continue;
+    }
+
+    try {
+      const result = await importFile(config, filePath, content, mode, timeZone);
+      results.push(result);
+      if (result.status === "imported") {
+        imported++;
+        records[hash] = { file: filePath, notePath: result.notePath!, importedAt: new Date().toISOString() };
+        // Saved after every file so an interrupted batch isn't imported twice
+        await writeFileAtomic(importsPath(config), JSON.stringify(records, null, 2));
+        onProgress(`Imported ${imported} of ${Math.min(limit, files.length)}: ${path.basename(filePath)} → ${result.notePath}`);
+      }
+    } catch (error) {
+      results.push({ file: filePath, status: "failed", reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { results, remaining };
+}
@@ -1,85 +1,280 @@
 import { z } from "zod";
 import { defineDAINService, ToolConfig } from "@dainprotocol/service-sdk";
-import { CardUIBuilder, DainResponse, FormUIBuilder } from "@dainprotocol/utils";
+import { CardUIBuilder, ChartUIBuilder, DainResponse, FormUIBuilder, TableUIBuilder } from "@dainprotocol/utils";
 import fs from 'fs/promises';
 import path from "path";
 import dotenv from "dotenv";
-import { structureContent, searchRelatedNotes, createDailyNoteViaURI, getTodayNoteFilePath, structureDailyNote, extractMarkdownContent } from "./utils";
+import { Temporal } from "@js-temporal/polyfill";
+import { structureContent, createDailyNote, currentDailyNoteDate, getDailyNoteDate, getDailyNoteFilePath, planDailyNoteUpdate, normalizeTags, readDailyNotes, renderDailyNote, resolveDailyNoteDate } from "./utils";
+import { computeMetricsTrend } from "./metrics";
+import { generateReview, getReviewRange } from "./review";
+import { describeProcessing } from "./transcripts";
+import { importTranscripts, listTranscriptFiles, resolveImportPath, TRANSCRIPT_EXTENSIONS } from "./imports";
+import { getWatcherStatus, startVaultWatcher } from "./watcher";
+import { completeTask, filterTasks, findTask, formatTask, getVaultTasks, insertTask, parseTasks, planTaskRollover, Task } from "./tasks";
+import { searchNotes } from "./search";
+import { describeRelatedNotes, findRelatedNotes } from "./related";
+import { askVault } from "./ask";
+import { isPrivateNote, readAuditLog, removePrivateBlocks } from "./privacy";
+import { getSpendToday, readUsage, runWithTool, summarizeUsage } from "./usage";
+import { getConfig, userTimeZone, VaultConfig } from "./config";
+import { commitDraft, CommitResult, createDraft, Draft, getDraft } from "./drafts";
+import { hashContent, resolveVaultPath, sanitizeFileName, uniqueNotePath } from "./files";
+import { composeNote, normalizeNotePath, parseFrontmatter, toVaultPath } from "./vault";
+import { getNoteVersion, listNoteVersions, writeNoteWithHistory } from "./history";
+import { formatUnifiedDiff, summarizeDiff } from "./diff";
+import { applyLinks, formatSuggestions, getLinkCandidates, LinkSuggestion, selectSuggestions, suggestLinks } from "./autolink";
+import { findNote, findOrphanNotes, findUnresolvedLinks, getLinkGraph, LinkGraph, locateNote, ResolvedLink } from "./links";
+import { commitMove, discardMove, getMove, MovePlan, stageMove } from "./moves";
+import { appendToSection, applyNoteEdits, findSection, getSectionContent, getSectionText, InsertFormat, insertUnderHeading, NoteEdits, parseOutline } from "./sections";
 
 dotenv.config({ path: path.resolve(process.cwd(), '.env.development') });
 
-export const VAULT_PATH = process.env.VAULT_PATH || '/Users/rami/Documents/Obsidian';
+/**
+ * Card shown when a confirmed edit can't be written because the note changed
+ * since it was reviewed. The form lets the user resolve the merge and confirm again.
+ */
+function buildConflictResponse(draft: Draft, result: Extract<CommitResult, { status: "conflict" }>, confirmTool: string) {
+  const title = path.posix.basename(draft.notePath, ".md");
+
+  const formUI = new FormUIBuilder()
+    .title("Resolve Changes")
+    .addField({
+      name: "editedContent",
+      label: result.conflicts > 0
+        ? "Merged Content (resolve the sections between <<<<<<< and >>>>>>>)"
+        : "Merged Content",
+      type: "string",
+      widget: "textarea",
+      required: true,
+      defaultValue: result.merged,
+      default: result.merged
+    })
+    .onSubmit({
+      tool: confirmTool,
+      paramSchema: {
+        editedContent: { type: "string" },
+        draftId: { type: "string" },
+        fileName: { type: "string" }
+      },
+      params: {
+        draftId: draft.id,
+        fileName: path.posix.basename(draft.notePath)
+      }
+    })
+    .build();
+
+  const cardUI = new CardUIBuilder()
+    .title("Note Changed Since Review")
+    .content(result.conflicts > 0
+      ? `"${title}" was edited after you reviewed it and ${result.conflicts} section(s) conflict with your version. Nothing was written. Resolve the conflicts below and confirm again.`
+      : `"${title}" was edited after you reviewed it. Your changes were merged with the current version; nothing was written yet. Review the merge below and confirm again.`)
+    .addChild(formUI)
+    .build();
+
+  return new DainResponse({
+    text: `"${title}" changed since it was reviewed, so it was not overwritten. Please review the merged version and confirm again.`,
+    data: { title, fileName: path.posix.basename(draft.notePath), conflict: true },
+    ui: cardUI
+  });
+}
+
+const linkSuggestionSchema = z.object({
+  notePath: z.string().describe("Vault-relative path of the mentioned note"),
+  linkTarget: z.string().describe("Link path of the note"),
+  mention: z.string().describe("Text that becomes the link"),
+  context: z.string().describe("Line containing the mention")
+});
+
+/**
+ * Form field for choosing which proposed inline links to add, and the text describing them.
+ */
+function linkSuggestionField(suggestions: LinkSuggestion[]) {
+  const all = suggestions.map((_, i) => i + 1).join(", ");
+  return {
+    field: {
+      name: "acceptedLinks",
+      label: "Links to add (numbers of the proposed links, comma-separated; clear to add none)",
+      type: "string",
+      required: false,
+      defaultValue: all,
+      default: all
+    },
+    description: suggestions.length > 0
+      ? `\n\nProposed links to existing notes:\n${formatSuggestions(suggestions)}`
+      : ""
+  };
+}
+
+const relatedNoteSchema = z.object({
+  title: z.string().describe("Title of the related note"),
+  path: z.string().describe("Vault-relative path of the related note"),
+  link: z.string().describe("Link target of its best matching section, e.g. \"Note#Heading\""),
+  heading: z.string().describe("Heading path of that section, empty before the first heading"),
+  passage: z.string().describe("The passage that matched"),
+  score: z.number().describe("Score from 0 to 1; notes found by both semantic and keyword search score higher"),
+  matchedBy: z.array(z.enum(["semantic", "keyword"])).describe("Which searches found the note")
+});
+
+const processingSchema = z.object({
+  originalChars: z.number().describe("Length of the raw transcript"),
+  preprocessedChars: z.number().describe("Length after removing markers and repeats"),
+  markersRemoved: z.number().describe("Speaker labels and timestamps removed"),
+  repeatsRemoved: z.number().describe("Repeated sentences and phrases removed"),
+  parts: z.number().describe("Parts the transcript was cleaned in, 1 if it fit in one prompt")
+});
+
+/**
+ * The user's time zone from the agent context, when the agent sends a valid one.
+ */
+function agentTimeZone(agentInfo: unknown): string | undefined {
+  const timeZone = (agentInfo as { timeZone?: unknown } | undefined)?.timeZone;
+  if (typeof timeZone !== "string") return undefined;
+  try {
+    Temporal.Now.zonedDateTimeISO(timeZone);
+    return timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The time zone of the user making a request: the agent's, else the configured one.
+ */
+function requestTimeZone(config: VaultConfig, agentInfo: unknown): string {
+  return userTimeZone(config, agentTimeZone(agentInfo));
+}
+
+/**
+ * What today is for the user making a request, counted the way daily notes are.
+ */
+function userToday(config: VaultConfig, agentInfo: unknown): Temporal.PlainDate {
+  return currentDailyNoteDate(config, { timeZone: agentTimeZone(agentInfo) });
+}
 
 const addNoteConfig: ToolConfig = {
   id: "add-note",
   name: "Add Structured Note to Obsidian",
-  description: "Structures a raw transcript and creates a new note in your Obsidian vault, finding related notes",
+  description: "Structures a raw transcript into a new note draft for your Obsidian vault, finding related notes. The note is written after confirm-add-note",
   input: z.object({
     rawContent: z.string().describe("Raw transcript of thoughts and reflections"),
   }),
   output: z.object({
-    title: z.string().describe("Title of the created note"),
-    fileName: z.string().describe("File name of the created note"),
-    fileContent: z.string().describe("Content of the created note"),
-    relatedNotes: z.array(z.string()).describe("Titles of related notes"),
+    title: z.string().describe("Title of the note"),
+    fileName: z.string().describe("File name the note will be saved as"),
+    fileContent: z.string().describe("Content of the note, including its frontmatter"),
+    tags: z.array(z.string()).describe("Tags of the note"),
+    aliases: z.array(z.string()).describe("Aliases of the note"),
+    summary: z.string().describe("One sentence summary of the note"),
+    relatedNotes: z.array(relatedNoteSchema).describe("Related notes, best first"),
+    linkSuggestions: z.array(linkSuggestionSchema).describe("Proposed inline links, numbered from 1 in this order"),
+    processing: processingSchema.describe("How the transcript was preprocessed"),
+    draftId: z.string().describe("ID of the staged draft, passed to confirm-add-note")
   }),
   handler: async ({ rawContent }, agentInfo) => {
+    const config = await getConfig();
+
     // Structure the content
-    const { title, content, tags } = await structureContent(rawContent);
+    const { title, content, tags, aliases, summary, processing } = await structureContent(config, rawContent);
 
-    const fileName = `${title}.md`;
-    const filePath = path.join(VAULT_PATH, fileName);
+    const notePath = await uniqueNotePath(
+      config.vaultPath,
+      path.posix.join(config.newNotes.folder, `${sanitizeFileName(title)}.md`)
+    );
+    const fileName = path.posix.basename(notePath);
 
     // Search for related notes
-    const relatedNotes = await searchRelatedNotes(content, title);
+    const relatedNotes = await findRelatedNotes(config, content, { notePath, title });
+
+    // Propose inline links for mentions of existing notes
+    const linkSuggestions = suggestLinks(content, await getLinkCandidates(config));
+    const links = linkSuggestionField(linkSuggestions);
 
     // Prepare the content with related notes
-    let fileContent = "";
+    let noteBody = "";
     if (relatedNotes.length > 0) {
-      fileContent += "Related Notes:\n";
+      noteBody += "Related Notes:\n";
       for (const note of relatedNotes) {
-        fileContent += `- [[${note}]]\n`;
+        noteBody += `- [[${note.link}]]\n`;
       }
-      fileContent += "\n";
+      noteBody += "\n";
     }
 
-    fileContent += `${content}\n`;
+    noteBody += `${content}\n`;
+
+    const frontmatter = {
+      aliases,
+      tags,
+      summary,
+      created: Temporal.Now.plainDateTimeISO().toString({ smallestUnit: "second" }),
+      source: "add-note"
+    };
+    const fileContent = composeNote(frontmatter, applyLinks(noteBody, linkSuggestions));
+
+    // Nothing is written to the vault until the draft is confirmed
+    const draft = await createDraft(config, {
+      tool: "add-note",
+      notePath,
+      content: noteBody,
+      frontmatter,
+      linkSuggestions,
+      baseHash: null,
+      baseContent: null
+    });
 
     // Create a form for editing the content
     const formUI = new FormUIBuilder()
       .title("Review and Edit Note")
+      .addField({
+        name: "title",
+        label: "Title",
+        type: "string",
+        required: true,
+        defaultValue: title,
+        default: title
+      })
+      .addField({
+        name: "tags",
+        label: "Tags (comma-separated)",
+        type: "string",
+        required: false,
+        defaultValue: tags.join(", "),
+        default: tags.join(", ")
+      })
       .addField({
         name: "editedContent",
         label: "Note Content",
         type: "string",
         widget: "textarea",
         required: true,
-        defaultValue: fileContent,
-        default: fileContent
+        defaultValue: noteBody,
+        default: noteBody
       })
+      .addField(links.field)
       .onSubmit({
         tool: "confirm-add-note",
         paramSchema: {
+          title: { type: "string" },
+          tags: { type: "string" },
           editedContent: { type: "string" },
-          fileName: { type: "string" }
+          acceptedLinks: { type: "string" },
+          draftId: { type: "string" }
         },
         params: {
-          fileName: fileName
+          draftId: draft.id
         }
       })
       .build();
 
-    await fs.writeFile(filePath, fileContent, 'utf8');
-
     const cardUI = new CardUIBuilder()
       .title("Review Structured Note")
-      .content(`Please review and edit the note content if needed:`)
+      .content(`${summary}\n\n${describeProcessing(processing)} Please review and edit the title, tags and content if needed. It will be saved as ${notePath}.${links.description}${relatedNotes.length > 0 ? `\n\n${describeRelatedNotes(relatedNotes)}` : ""}`)
       .addChild(formUI)
       .build();
 
     return new DainResponse({
-      text: `Structured note "${title}" created. Please review and confirm.`,
-      data: { title, fileName, fileContent, relatedNotes },
+      text: `Structured note "${title}" drafted. Please review and confirm.`,
+      data: { title, fileName, fileContent, tags, aliases, summary, relatedNotes, linkSuggestions, processing, draftId: draft.id },
       ui: cardUI
     });
   }
@@ -88,175 +283,1663 @@ const addNoteConfig: ToolConfig = {
 const confirmAddNoteConfig: ToolConfig = {
   id: "confirm-add-note",
   name: "Confirm and Add Note to Obsidian",
-  description: "Confirms and adds the edited note to your Obsidian vault",
+  description: "Confirms a note drafted by add-note and writes it to your Obsidian vault, optionally with a new title or tags",
   input: z.object({
-    editedContent: z.string().describe("Edited content of the note"),
-    fileName: z.string().describe("File name of the note")
+    editedContent: z.string().describe("Edited content of the note, without frontmatter"),
+    draftId: z.string().describe("ID of the draft returned by add-note"),
+    title: z.string().optional().describe("Title to save the note under, defaults to the drafted title"),
+    tags: z.string().optional().describe("Comma-separated tags of the note, defaults to the drafted tags"),
+    fileName: z.string().optional().describe("File name to save the note as, used when no title is given"),
+    acceptedLinks: z.string().optional().describe("Comma-separated numbers of the proposed links to add, defaults to all")
   }),
   output: z.object({
     title: z.string().describe("Title of the created note"),
-    fileName: z.string().describe("File name of the created note")
+    fileName: z.string().describe("File name of the created note"),
+    tags: z.array(z.string()).describe("Tags of the created note")
   }),
-  handler: async ({ editedContent, fileName }, agentInfo) => {
-    const filePath = path.join(VAULT_PATH, fileName);
+  handler: async ({ editedContent, draftId, title: newTitle, tags: newTags, fileName, acceptedLinks }, agentInfo) => {
+    const config = await getConfig();
+    const draft = await getDraft(config, draftId);
 
-    // Write the edited content to the file
-    await fs.writeFile(filePath, editedContent, 'utf8');
+    const newName = newTitle?.trim() || fileName?.replace(/\.md$/, "");
+    if (newName) {
+      // Only the name may change; the note stays in the drafted folder
+      draft.notePath = path.posix.join(path.posix.dirname(draft.notePath), `${sanitizeFileName(newName)}.md`);
+    }
 
-    const title = fileName.replace('.md', '')
+    const frontmatter = { ...draft.frontmatter };
+    if (newTags !== undefined) {
+      frontmatter.tags = normalizeTags(newTags.split(","));
+    }
+
+    // Write the edited content to the file, picking a free name if it was taken meanwhile
+    const linkedContent = applyLinks(editedContent, selectSuggestions(draft.linkSuggestions ?? [], acceptedLinks));
+    const result = await commitDraft(config, draft, composeNote(frontmatter, linkedContent));
+    const savedFileName = path.posix.basename(result.notePath);
+    const title = savedFileName.replace(/\.md$/, "");
+    const tags = Array.isArray(frontmatter.tags) ? frontmatter.tags.map(String) : [];
 
     const cardUI = new CardUIBuilder()
       .title("Note Added to Obsidian")
-      .content(`Successfully added note: ${title}`)
+      .content(`Successfully added note: ${title} (${result.notePath})${tags.length > 0 ? `\nTags: ${tags.map(tag => `#${tag}`).join(" ")}` : ""}`)
       .build();
 
     return new DainResponse({
       text: `Added note "${title}" to Obsidian vault`,
-      data: { title, fileName },
+      data: { title, fileName: savedFileName, tags },
       ui: cardUI
     });
   }
 };
 
-const updateTodayNoteConfig: ToolConfig = {
-  id: "update-today-note",
-  name: "Update Today's Note in Obsidian",
-  description: "Structures a raw transcript and updates today's note in your Obsidian vault, creating it if necessary",
+/**
+ * Describe each proposed edit of a note for review: property changes and a
+ * diff per section.
+ */
+function describeNoteEdits(baseContent: string, edits: NoteEdits): string {
+  const outline = parseOutline(baseContent);
+  const parts: string[] = [];
+
+  const properties = Object.entries(edits.frontmatter)
+    .filter(([key, value]) => (outline.frontmatter[key] ?? null) !== value)
+    .map(([key, value]) => `- ${key}: ${outline.frontmatter[key] ?? "(empty)"} → ${value ?? "(empty)"}`);
+  if (properties.length > 0) {
+    parts.push(`**Properties**\n${properties.join("\n")}`);
+  }
+
+  for (const edit of edits.sections) {
+    const existing = outline.sections.find(section => section.path.join(" > ") === edit.path);
+    const before = existing ? getSectionContent(outline, existing) : "";
+    parts.push(`**${edit.path}**${existing ? "" : " (new section)"}\n\`\`\`diff\n${formatUnifiedDiff(before, edit.content)}\n\`\`\``);
+  }
+  return parts.join("\n\n");
+}
+
+/**
+ * Merge the values submitted in the review form (`property0`, `section0`, ...)
+ * into the drafted edits. Numeric properties are parsed; empty means no value.
+ */
+function reviewedNoteEdits(edits: NoteEdits, fields: Record<string, unknown>): NoteEdits {
+  const frontmatter = { ...edits.frontmatter };
+  Object.keys(edits.frontmatter).forEach((key, i) => {
+    const value = fields[`property${i}`];
+    if (typeof value !== "string") return;
+    if (edits.numericKeys?.includes(key)) {
+      frontmatter[key] = value.trim() === "" ? null : Number.isFinite(Number(value)) ? Number(value) : value;
+    } else {
+      frontmatter[key] = value;
+    }
+  });
+  const sections = edits.sections.map((edit, i) => {
+    const value = fields[`section${i}`];
+    return typeof value === "string" ? { ...edit, content: value } : edit;
+  });
+  return { ...edits, frontmatter, sections };
+}
+
+const updateDailyNoteConfig: ToolConfig = {
+  id: "update-daily-note",
+  name: "Update Daily Note in Obsidian",
+  description: "Structures a raw transcript and drafts an update to the daily note of today or any other day in your Obsidian vault, creating the note if necessary. Properties and sections are filled in individually, and unfinished tasks of the previous daily note can be rolled over; the update is written after confirm-update-daily-note",
   input: z.object({
     rawContent: z.string().describe("Raw transcript of thoughts and reflections"),
+    date: z.string().optional().describe("Day of the note: a date like 2025-01-31 or an expression like 'yesterday', '3 days ago' or 'last Friday' (default today)"),
+    timeZone: z.string().optional().describe("The user's IANA time zone, e.g. 'Europe/Amsterdam', which decides what today is (default from the agent context, else the configuration)"),
+    dayStartHour: z.number().int().min(0).max(23).optional().describe("Hour the user's day starts, e.g. 4 to count reflections before 4am towards the previous day (default from the configuration)"),
+    rolloverTasks: z.boolean().optional().describe("Copy the unfinished tasks of the previous daily note into this note (default false)")
   }),
   output: z.object({
+    date: z.string().describe("Day of the updated note"),
     title: z.string().describe("Title of the updated note"),
     fileName: z.string().describe("File name of the updated note"),
     AIResponse: z.string().describe("Content of the updated note"),
-    relatedNotes: z.array(z.string()).describe("Titles of related notes")
+    properties: z.record(z.union([z.string(), z.number(), z.null()])).describe("Property values filled in"),
+    sections: z.array(z.object({
+      path: z.string().describe("Heading path of the section"),
+      content: z.string().describe("New content of the section")
+    })).describe("Sections filled in"),
+    relatedNotes: z.array(relatedNoteSchema).describe("Related notes, best first"),
+    linkSuggestions: z.array(linkSuggestionSchema).describe("Proposed inline links, numbered from 1 in this order"),
+    rolledOverTasks: z.array(z.string()).describe("Descriptions of the tasks rolled over from the previous daily note"),
+    processing: processingSchema.describe("How the transcript was preprocessed"),
+    draftId: z.string().describe("ID of the staged draft, passed to confirm-update-daily-note")
   }),
-  handler: async ({ rawContent }, agentInfo) => {
-    const todayFilePath = await getTodayNoteFilePath();
-    const title = todayFilePath.replace('.md', '').split('/').pop();
-    let fileExists = await fs.access(todayFilePath).then(() => true).catch(() => false);
-    console.log("fileExists", fileExists, todayFilePath, title);
-    if (!fileExists) {
-      await createDailyNoteViaURI();
-      fileExists = await fs.access(todayFilePath).then(() => true).catch(() => false);
-      if (!fileExists) {
-        throw new Error("Failed to create today's note via Obsidian URI");
+  handler: async ({ rawContent, date: dateExpression, timeZone, dayStartHour, rolloverTasks }, agentInfo) => {
+    const config = await getConfig();
+    const userZone = userTimeZone(config, timeZone ?? agentTimeZone(agentInfo));
+    const date = resolveDailyNoteDate(config, dateExpression, { timeZone: userZone, dayStartHour });
+    const dailyFilePath = getDailyNoteFilePath(config, date);
+    const title = dailyFilePath.replace('.md', '').split('/').pop();
+
+    const notePath = toVaultPath(config.vaultPath, dailyFilePath);
+
+    // Read existing content; a missing note starts from the daily-note template and is only created on confirm
+    const fileContent = await fs.readFile(dailyFilePath, 'utf8').catch((error: unknown) => {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    });
+    const existingContent = fileContent ?? await renderDailyNote(config, date, userZone);
+
+    // Ask for edits to the note's properties and sections, then apply them to the note as it is
+    const planned = await planDailyNoteUpdate(config, notePath, existingContent, rawContent);
+    let edits = planned.edits;
+
+    // Carry the unfinished tasks of the last daily note over, as part of the same reviewed edits
+    let rolledOver: Task[] = [];
+    if (rolloverTasks) {
+      const previous = (await readDailyNotes(config, date.subtract({ days: config.tasks.rolloverDays }), date.subtract({ days: 1 }))).pop();
+      if (previous) {
+        const previousContent = await fs.readFile(resolveVaultPath(config.vaultPath, previous.notePath), "utf8");
+        ({ edits, rolledOver } = planTaskRollover(config, previousContent, previous.notePath, existingContent, edits, config.tasks.heading));
       }
     }
+    const updatedDailyNote = applyNoteEdits(existingContent, edits);
 
-    // Read existing content
-    let existingContent = await fs.readFile(todayFilePath, 'utf8');
+    // Search for related notes, leaving out the other daily notes
+    const relatedNotes = await findRelatedNotes(config, updatedDailyNote, { notePath, title });
 
-    // Structure the content
-    const AIResponse = await structureDailyNote(existingContent, rawContent);
-    const updatedDailyNote = extractMarkdownContent(AIResponse);
+    // Propose inline links for mentions of existing notes
+    const linkSuggestions = suggestLinks(updatedDailyNote, await getLinkCandidates(config), [notePath]);
+    const links = linkSuggestionField(linkSuggestions);
 
-    // Search for related notes
-    const relatedNotes = await searchRelatedNotes(updatedDailyNote, title);
+    // Remember the note as it is now, so edits made in Obsidian before confirming aren't lost
+    const draft = await createDraft(config, {
+      tool: "update-daily-note",
+      notePath,
+      content: updatedDailyNote,
+      edits,
+      linkSuggestions,
+      baseHash: fileContent === null ? null : hashContent(fileContent),
+      baseContent: existingContent,
+      fixedPath: true
+    });
+
+    // One field per property and per changed section instead of the whole file
+    const formUI = new FormUIBuilder().title("Review and Edit Daily Note");
+    const paramSchema: Record<string, { type: string }> = {};
+    Object.entries(edits.frontmatter).forEach(([key, value], i) => {
+      formUI.addField({
+        name: `property${i}`,
+        label: edits.numericKeys?.includes(key) ? `${key} (0-10, empty if not mentioned)` : key,
+        type: "string",
+        required: false,
+        defaultValue: value === null ? "" : String(value),
+        default: value === null ? "" : String(value)
+      });
+      paramSchema[`property${i}`] = { type: "string" };
+    });
+    edits.sections.forEach((edit, i) => {
+      formUI.addField({
+        name: `section${i}`,
+        label: edit.path,
+        type: "string",
+        widget: "textarea",
+        required: false,
+        defaultValue: edit.content,
+        default: edit.content
+      });
+      paramSchema[`section${i}`] = { type: "string" };
+    });
+    formUI
+      .addField(links.field)
+      .onSubmit({
+        tool: "confirm-update-daily-note",
+        paramSchema: {
+          ...paramSchema,
+          acceptedLinks: { type: "string" },
+          draftId: { type: "string" },
+          fileName: { type: "string" }
+        },
+        params: {
+          draftId: draft.id,
+          fileName: path.basename(dailyFilePath)
+        }
+      });
+
+    const cardUI = new CardUIBuilder()
+      .title(`Review Daily Note Update for ${date}`)
+      .content(`${describeProcessing(planned.processing)}\n\nProposed changes to ${title}:\n\n${describeNoteEdits(existingContent, edits)}${links.description}${rolledOver.length > 0 ? `\n\nRolled over ${rolledOver.length} unfinished task(s) from ${rolledOver[0].notePath}.` : ""}\n\nEdit the values below if needed. Everything else in the note stays as it is.`)
+      .addChild(formUI.build())
+      .build();
+
+    return new DainResponse({
+      text: `Drafted an update to the daily note for ${date} (${notePath}). Please review and confirm.`,
+      data: {
+        date: date.toString(),
+        title,
+        fileName: path.basename(dailyFilePath),
+        AIResponse: updatedDailyNote,
+        properties: edits.frontmatter,
+        sections: edits.sections,
+        relatedNotes,
+        linkSuggestions,
+        rolledOverTasks: rolledOver.map(task => task.description),
+        processing: planned.processing,
+        draftId: draft.id
+      },
+      ui: cardUI
+    });
+  }
+};
+
+const confirmUpdateDailyNoteConfig: ToolConfig = {
+  id: "confirm-update-daily-note",
+  name: "Confirm and Update Daily Note in Obsidian",
+  description: "Confirms a daily note update drafted by update-daily-note and writes it to the note of the day that was reviewed, unless the note was edited since review. Reviewed values are passed as property0, property1, ... and section0, section1, ... in the order of the draft",
+  input: z.object({
+    editedContent: z.string().optional().describe("Complete content of the note, replacing the drafted edits (used when resolving conflicts)"),
+    draftId: z.string().describe("ID of the draft returned by update-daily-note"),
+    fileName: z.string().optional().describe("File name of the note"),
+    acceptedLinks: z.string().optional().describe("Comma-separated numbers of the proposed links to add, defaults to all")
+  }).passthrough(),
+  output: z.object({
+    date: z.string().optional().describe("Day of the updated note"),
+    title: z.string().describe("Title of the updated note"),
+    fileName: z.string().describe("File name of the updated note"),
+    conflict: z.boolean().optional().describe("True if the note changed since review and nothing was written")
+  }),
+  handler: async ({ editedContent, draftId, acceptedLinks, ...fields }, agentInfo) => {
+    const config = await getConfig();
+    const draft = await getDraft(config, draftId);
+
+    // Rebuild the note from the reviewed values, unless a complete note was given
+    const content = editedContent
+      ?? (draft.edits && draft.baseContent !== null
+        ? applyNoteEdits(draft.baseContent, reviewedNoteEdits(draft.edits, fields))
+        : draft.content);
+
+    const linkedContent = applyLinks(content, selectSuggestions(draft.linkSuggestions ?? [], acceptedLinks));
+    // Links are in the content now, so confirming a merge doesn't add them twice
+    draft.linkSuggestions = [];
+
+    // Write the edited content to the dated note that was reviewed, whatever day it is now, unless it changed in the meantime
+    const result = await commitDraft(config, draft, linkedContent);
+    if (result.status === "conflict") {
+      return buildConflictResponse(draft, result, "confirm-update-daily-note");
+    }
+
+    const fileName = path.posix.basename(result.notePath);
+    const title = fileName.replace('.md', '')
+    const date = getDailyNoteDate(config, result.notePath)?.toString();
+
+    const cardUI = new CardUIBuilder()
+      .title("Daily Note Updated in Obsidian")
+      .content(`Successfully updated the daily note${date ? ` for ${date}` : ""}: ${title}`)
+      .build();
+
+    return new DainResponse({
+      text: `Updated the daily note "${title}" in Obsidian vault`,
+      data: { date, title, fileName, conflict: false },
+      ui: cardUI
+    });
+  }
+};
+
+const searchNotesConfig: ToolConfig = {
+  id: "search-notes",
+  name: "Search Obsidian Notes",
+  description: "Full-text search over your Obsidian vault. Supports \"exact phrases\", prefix* terms, -exclusions and the filters tag:, path: and modified:>YYYY-MM-DD",
+  input: z.object({
+    query: z.string().describe("Search query, e.g. 'dain \"vector store\" tag:project modified:>2025-01-01'"),
+    limit: z.number().int().min(1).max(50).optional().describe("Maximum number of results (default 10)")
+  }),
+  output: z.object({
+    results: z.array(z.object({
+      title: z.string().describe("Title of the found note"),
+      path: z.string().describe("Vault-relative path of the found note"),
+      score: z.number().describe("Relevance score, higher is better"),
+      snippet: z.string().describe("Snippet of the note content with matched terms in bold"),
+      heading: z.string().describe("Heading path of the section the snippet comes from, empty before the first heading"),
+      link: z.string().describe("Link target of that section, e.g. \"Note#Heading\"")
+    }))
+  }),
+  handler: async ({ query, limit }, agentInfo) => {
+    const config = await getConfig();
+    const searchResults = await searchNotes(config, query, limit ?? 10, requestTimeZone(config, agentInfo));
+    const results = searchResults.map(({ tags, modified, ...result }) => result);
+
+    const hits = results
+      .map((result, i) => `${i + 1}. **${result.title}**${result.heading ? ` › ${result.heading}` : ""} (${result.path}, score ${result.score})\n   ${result.snippet}`)
+      .join("\n");
+
+    const cardUI = new CardUIBuilder()
+      .title("Search Results")
+      .content(results.length > 0
+        ? `Found ${results.length} results for "${query}":\n\n${hits}`
+        : `No notes matched "${query}"`)
+      .build();
+
+    return new DainResponse({
+      text: results.length > 0
+        ? `Found ${results.length} notes for "${query}": ${results.map(result => result.path).join(", ")}`
+        : `No notes matched "${query}" in Obsidian vault`,
+      data: { results },
+      ui: cardUI
+    });
+  }
+};
+
+const listNoteHistoryConfig: ToolConfig = {
+  id: "list-note-history",
+  name: "List Obsidian Note History",
+  description: "Lists the saved versions of a note. A version is kept every time this service overwrites the note",
+  input: z.object({
+    notePath: z.string().describe("Vault-relative path of the note, e.g. 'Daily/2025-01-31.md'")
+  }),
+  output: z.object({
+    notePath: z.string().describe("Vault-relative path of the note"),
+    versions: z.array(z.object({
+      id: z.string().describe("Version ID, passed to diff-note-version and restore-note-version"),
+      tool: z.string().describe("Tool whose write replaced this version"),
+      timestamp: z.string().describe("When the version was replaced"),
+      added: z.number().describe("Lines the write added"),
+      removed: z.number().describe("Lines the write removed")
+    }))
+  }),
+  handler: async ({ notePath: rawPath }, agentInfo) => {
+    const config = await getConfig();
+    const notePath = normalizeNotePath(rawPath);
+    const versions = (await listNoteVersions(config, notePath)).map(version => ({
+      id: version.id,
+      tool: version.tool,
+      timestamp: version.timestamp,
+      added: version.diff.added,
+      removed: version.diff.removed
+    }));
+
+    const list = versions
+      .map((version, i) => `${i + 1}. ${version.timestamp} by ${version.tool} (+${version.added} -${version.removed}), ID ${version.id}`)
+      .join("\n");
+
+    const cardUI = new CardUIBuilder()
+      .title("Note History")
+      .content(versions.length > 0
+        ? `${versions.length} saved versions of ${notePath}, newest first:\n\n${list}`
+        : `No saved versions of ${notePath}`)
+      .build();
+
+    return new DainResponse({
+      text: versions.length > 0
+        ? `${notePath} has ${versions.length} saved versions. The latest was replaced by ${versions[0].tool} at ${versions[0].timestamp}`
+        : `${notePath} has no saved versions`,
+      data: { notePath, versions },
+      ui: cardUI
+    });
+  }
+};
+
+const diffNoteVersionConfig: ToolConfig = {
+  id: "diff-note-version",
+  name: "Diff Obsidian Note Version",
+  description: "Shows the changes between a saved version of a note and its current content",
+  input: z.object({
+    notePath: z.string().describe("Vault-relative path of the note"),
+    versionId: z.string().describe("ID of the version from list-note-history")
+  }),
+  output: z.object({
+    notePath: z.string().describe("Vault-relative path of the note"),
+    diff: z.string().describe("Unified diff from the version to the current note"),
+    added: z.number().describe("Lines added since the version"),
+    removed: z.number().describe("Lines removed since the version")
+  }),
+  handler: async ({ notePath: rawPath, versionId }, agentInfo) => {
+    const config = await getConfig();
+    const notePath = normalizeNotePath(rawPath);
+    const version = await getNoteVersion(config, notePath, versionId);
+    const currentContent = await fs.readFile(resolveVaultPath(config.vaultPath, notePath), "utf8").catch((error: unknown) => {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return "";
+      throw error;
+    });
+
+    const diff = formatUnifiedDiff(version.content, currentContent);
+    const { added, removed } = summarizeDiff(version.content, currentContent);
+
+    const cardUI = new CardUIBuilder()
+      .title("Changes Since Version")
+      .content(diff
+        ? `Changes to ${notePath} since ${version.timestamp} (+${added} -${removed}):\n\n\`\`\`diff\n${diff}\n\`\`\``
+        : `${notePath} is identical to the version from ${version.timestamp}`)
+      .build();
+
+    return new DainResponse({
+      text: `${notePath} has ${added} added and ${removed} removed lines since the version from ${version.timestamp}`,
+      data: { notePath, diff, added, removed },
+      ui: cardUI
+    });
+  }
+};
+
+const restoreNoteVersionConfig: ToolConfig = {
+  id: "restore-note-version",
+  name: "Restore Obsidian Note Version",
+  description: "Restores a note to a saved version. The content it replaces is kept in the history, so a restore can be undone too",
+  input: z.object({
+    notePath: z.string().describe("Vault-relative path of the note"),
+    versionId: z.string().describe("ID of the version from list-note-history")
+  }),
+  output: z.object({
+    notePath: z.string().describe("Vault-relative path of the restored note"),
+    restoredFrom: z.string().describe("Timestamp of the restored version")
+  }),
+  handler: async ({ notePath: rawPath, versionId }, agentInfo) => {
+    const config = await getConfig();
+    const notePath = normalizeNotePath(rawPath);
+    const version = await getNoteVersion(config, notePath, versionId);
+
+    await writeNoteWithHistory(config, notePath, "restore-note-version", version.content);
+
+    const cardUI = new CardUIBuilder()
+      .title("Note Restored")
+      .content(`Restored ${notePath} to the version from ${version.timestamp}. The replaced content was saved to the note history.`)
+      .build();
+
+    return new DainResponse({
+      text: `Restored ${notePath} to the version from ${version.timestamp}`,
+      data: { notePath, restoredFrom: version.timestamp },
+      ui: cardUI
+    });
+  }
+};
+
+/**
+ * Look up a note in the link graph, failing with a helpful message when it doesn't exist.
+ */
+function requireNote(graph: LinkGraph, note: string): string {
+  const notePath = findNote(graph, note);
+  if (!notePath) {
+    throw new Error(`Note "${note}" not found in the vault`);
+  }
+  return notePath;
+}
+
+const linkSchema = z.object({
+  source: z.string().describe("Vault-relative path of the note containing the link"),
+  target: z.string().describe("Link target as written"),
+  resolved: z.string().optional().describe("Vault-relative path of the linked note, missing if it doesn't exist"),
+  subpath: z.string().optional().describe("Heading or block reference, e.g. '#Goals' or '#^abc123'"),
+  alias: z.string().optional().describe("Display text of the link"),
+  embed: z.boolean().describe("Whether the link embeds the note"),
+  line: z.number().describe("Line of the link in the note body, 0 for frontmatter")
+});
+
+function toLinkData({ source, target, resolved, subpath, alias, embed, line }: ResolvedLink) {
+  return { source, target, resolved, subpath, alias, embed, line };
+}
+
+const getBacklinksConfig: ToolConfig = {
+  id: "get-backlinks",
+  name: "Get Obsidian Backlinks",
+  description: "Lists the notes linking to a note, including embeds, heading and block references and markdown links",
+  input: z.object({
+    note: z.string().describe("Title, file name or vault-relative path of the note")
+  }),
+  output: z.object({
+    notePath: z.string().describe("Vault-relative path of the note"),
+    backlinks: z.array(linkSchema)
+  }),
+  handler: async ({ note }, agentInfo) => {
+    const graph = await getLinkGraph(await getConfig());
+    const notePath = requireNote(graph, note);
+    const backlinks = (graph.backlinks.get(notePath) ?? []).map(toLinkData);
+
+    const list = backlinks
+      .map(link => `- [[${link.source.replace(/\.md$/, "")}]] line ${link.line}: ${link.embed ? "embeds" : "links to"} ${link.target}${link.subpath ?? ""}`)
+      .join("\n");
+
+    const cardUI = new CardUIBuilder()
+      .title("Backlinks")
+      .content(backlinks.length > 0
+        ? `${backlinks.length} links to ${notePath}:\n\n${list}`
+        : `No notes link to ${notePath}`)
+      .build();
+
+    return new DainResponse({
+      text: backlinks.length > 0
+        ? `${notePath} is linked from ${new Set(backlinks.map(link => link.source)).size} notes: ${[...new Set(backlinks.map(link => link.source))].join(", ")}`
+        : `No notes link to ${notePath}`,
+      data: { notePath, backlinks },
+      ui: cardUI
+    });
+  }
+};
+
+const getOutgoingLinksConfig: ToolConfig = {
+  id: "get-outgoing-links",
+  name: "Get Obsidian Outgoing Links",
+  description: "Lists the links from a note to other notes and whether each one resolves",
+  input: z.object({
+    note: z.string().describe("Title, file name or vault-relative path of the note")
+  }),
+  output: z.object({
+    notePath: z.string().describe("Vault-relative path of the note"),
+    links: z.array(linkSchema)
+  }),
+  handler: async ({ note }, agentInfo) => {
+    const graph = await getLinkGraph(await getConfig());
+    const notePath = requireNote(graph, note);
+    const links = (graph.outgoing.get(notePath) ?? []).map(toLinkData);
+
+    const list = links
+      .map(link => `- line ${link.line}: ${link.target}${link.subpath ?? ""} → ${link.resolved ?? "(not found)"}`)
+      .join("\n");
+
+    const cardUI = new CardUIBuilder()
+      .title("Outgoing Links")
+      .content(links.length > 0
+        ? `${links.length} links in ${notePath}:\n\n${list}`
+        : `${notePath} doesn't link to any notes`)
+      .build();
+
+    const unresolved = links.filter(link => !link.resolved).length;
+    return new DainResponse({
+      text: links.length > 0
+        ? `${notePath} has ${links.length} links to notes${unresolved > 0 ? `, ${unresolved} of them unresolved` : ""}`
+        : `${notePath} doesn't link to any notes`,
+      data: { notePath, links },
+      ui: cardUI
+    });
+  }
+};
+
+const findOrphanNotesConfig: ToolConfig = {
+  id: "find-orphan-notes",
+  name: "Find Orphan Obsidian Notes",
+  description: "Lists notes that neither link to nor are linked from any other note",
+  input: z.object({
+    limit: z.number().int().min(1).max(500).optional().describe("Maximum number of notes to list (default 50)")
+  }),
+  output: z.object({
+    total: z.number().describe("Number of orphan notes"),
+    orphans: z.array(z.string()).describe("Vault-relative paths of orphan notes")
+  }),
+  handler: async ({ limit }, agentInfo) => {
+    const allOrphans = findOrphanNotes(await getLinkGraph(await getConfig()));
+    const orphans = allOrphans.slice(0, limit ?? 50);
+
+    const cardUI = new CardUIBuilder()
+      .title("Orphan Notes")
+      .content(allOrphans.length > 0
+        ? `${allOrphans.length} notes have no links${orphans.length < allOrphans.length ? ` (showing ${orphans.length})` : ""}:\n\n${orphans.map(notePath => `- ${notePath}`).join("\n")}`
+        : "Every note is linked to at least one other note")
+      .build();
+
+    return new DainResponse({
+      text: `Found ${allOrphans.length} orphan notes`,
+      data: { total: allOrphans.length, orphans },
+      ui: cardUI
+    });
+  }
+};
+
+const findUnresolvedLinksConfig: ToolConfig = {
+  id: "find-unresolved-links",
+  name: "Find Unresolved Obsidian Links",
+  description: "Lists links to notes that don't exist, grouped by the missing note",
+  input: z.object({
+    limit: z.number().int().min(1).max(500).optional().describe("Maximum number of missing notes to list (default 50)")
+  }),
+  output: z.object({
+    total: z.number().describe("Number of missing notes"),
+    unresolved: z.array(z.object({
+      target: z.string().describe("Missing note as written in the links"),
+      sources: z.array(z.string()).describe("Notes linking to it")
+    }))
+  }),
+  handler: async ({ limit }, agentInfo) => {
+    const all = findUnresolvedLinks(await getLinkGraph(await getConfig()));
+    const unresolved = all.slice(0, limit ?? 50).map(({ target, links }) => ({
+      target,
+      sources: [...new Set(links.map(link => link.source))]
+    }));
+
+    const list = unresolved
+      .map(entry => `- ${entry.target} (from ${entry.sources.join(", ")})`)
+      .join("\n");
+
+    const cardUI = new CardUIBuilder()
+      .title("Unresolved Links")
+      .content(all.length > 0
+        ? `${all.length} linked notes don't exist${unresolved.length < all.length ? ` (showing ${unresolved.length})` : ""}:\n\n${list}`
+        : "All links resolve to existing notes")
+      .build();
+
+    return new DainResponse({
+      text: `Found ${all.length} missing notes referenced by links`,
+      data: { total: all.length, unresolved },
+      ui: cardUI
+    });
+  }
+};
+
+const readNoteConfig: ToolConfig = {
+  id: "read-note",
+  name: "Read Obsidian Note",
+  description: "Reads a note, or one section of it, with its frontmatter and heading outline. Private notes can't be read and private blocks are left out",
+  input: z.object({
+    note: z.string().describe("Title, file name or vault-relative path of the note"),
+    heading: z.string().optional().describe("Only return this section, by heading name or path such as 'Projects > Dain'")
+  }),
+  output: z.object({
+    notePath: z.string().describe("Vault-relative path of the note"),
+    frontmatter: z.record(z.unknown()).describe("Frontmatter properties of the note"),
+    headings: z.array(z.string()).describe("Heading paths of the note, in document order"),
+    content: z.string().describe("Content of the note or the requested section")
+  }),
+  handler: async ({ note, heading }, agentInfo) => {
+    const config = await getConfig();
+    const notePath = await locateNote(config, note);
+    const rawContent = await fs.readFile(resolveVaultPath(config.vaultPath, notePath), "utf8");
+    const { frontmatter, body } = parseFrontmatter(rawContent.replace(/\r\n/g, "\n"));
+    if (isPrivateNote(config, notePath, frontmatter, body)) {
+      throw new Error(`${notePath} is private, so it can't be read`);
+    }
+    const fileContent = removePrivateBlocks(rawContent);
+    const outline = parseOutline(fileContent);
+    const headings = outline.sections.map(section => section.path.join(" > "));
+    const content = heading ? getSectionText(outline, findSection(outline, heading)) : fileContent;
+
+    const cardUI = new CardUIBuilder()
+      .title(heading ? `${notePath} > ${heading}` : notePath)
+      .content(content)
+      .build();
+
+    return new DainResponse({
+      text: heading ? `Section "${heading}" of ${notePath}:\n\n${content}` : `Content of ${notePath}:\n\n${content}`,
+      data: { notePath, frontmatter: outline.frontmatter, headings, content },
+      ui: cardUI
+    });
+  }
+};
+
+const sectionEditInput = z.object({
+  note: z.string().describe("Title, file name or vault-relative path of the note"),
+  heading: z.string().describe("Heading name or path such as 'Projects > Dain'"),
+  content: z.string().describe("Text to add"),
+  format: z.enum(["text", "list", "task"]).optional().describe("Add the text as is, as list items or as tasks (default text)")
+});
+
+const sectionEditOutput = z.object({
+  notePath: z.string().describe("Vault-relative path of the note"),
+  fileContent: z.string().describe("Content of the note after the edit"),
+  draftId: z.string().describe("ID of the staged draft, passed to confirm-note-edit")
+});
+
+/**
+ * Stage an edit of one section of a note and show it for review.
+ * Only the edited section changes; the rest of the file is kept byte for byte.
+ */
+async function draftSectionEdit(
+  tool: string,
+  { note, heading, content, format }: z.infer<typeof sectionEditInput>,
+  edit: (fileContent: string, heading: string, text: string, format: InsertFormat) => string
+) {
+  const config = await getConfig();
+  const notePath = await locateNote(config, note);
+  const existingContent = await fs.readFile(resolveVaultPath(config.vaultPath, notePath), "utf8");
+  const fileContent = edit(existingContent, heading, content, format ?? "text");
+
+  const draft = await createDraft(config, {
+    tool,
+    notePath,
+    content: fileContent,
+    baseHash: hashContent(existingContent),
+    baseContent: existingContent
+  });
+
+  const outline = parseOutline(fileContent);
+  const section = getSectionText(outline, findSection(outline, heading));
+
+  const formUI = new FormUIBuilder()
+    .title("Review and Edit Note")
+    .addField({
+      name: "editedContent",
+      label: "Note Content",
+      type: "string",
+      widget: "textarea",
+      required: true,
+      defaultValue: fileContent,
+      default: fileContent
+    })
+    .onSubmit({
+      tool: "confirm-note-edit",
+      paramSchema: {
+        editedContent: { type: "string" },
+        draftId: { type: "string" }
+      },
+      params: {
+        draftId: draft.id
+      }
+    })
+    .build();
+
+  const cardUI = new CardUIBuilder()
+    .title("Review Note Edit")
+    .content(`The "${heading}" section of ${notePath} will read:\n\n${section}`)
+    .addChild(formUI)
+    .build();
+
+  return new DainResponse({
+    text: `Drafted an edit to the "${heading}" section of ${notePath}. Please review and confirm.`,
+    data: { notePath, fileContent, draftId: draft.id },
+    ui: cardUI
+  });
+}
+
+const appendToSectionConfig: ToolConfig = {
+  id: "append-to-section",
+  name: "Append to Obsidian Note Section",
+  description: "Drafts adding text, list items or tasks to the end of a section of any note, leaving the rest of the note untouched. The edit is written after confirm-note-edit",
+  input: sectionEditInput,
+  output: sectionEditOutput,
+  handler: async (input, agentInfo) => draftSectionEdit("append-to-section", input, appendToSection)
+};
+
+const insertUnderHeadingConfig: ToolConfig = {
+  id: "insert-under-heading",
+  name: "Insert Under Obsidian Note Heading",
+  description: "Drafts inserting text, list items or tasks directly below a heading of any note, leaving the rest of the note untouched. The edit is written after confirm-note-edit",
+  input: sectionEditInput,
+  output: sectionEditOutput,
+  handler: async (input, agentInfo) => draftSectionEdit("insert-under-heading", input, insertUnderHeading)
+};
+
+const confirmNoteEditConfig: ToolConfig = {
+  id: "confirm-note-edit",
+  name: "Confirm Obsidian Note Edit",
+  description: "Confirms an edit drafted by append-to-section, insert-under-heading or generate-periodic-review and writes it, unless the note was edited since review",
+  input: z.object({
+    editedContent: z.string().describe("Edited content of the note"),
+    draftId: z.string().describe("ID of the draft to confirm")
+  }),
+  output: z.object({
+    notePath: z.string().describe("Vault-relative path of the edited note"),
+    conflict: z.boolean().optional().describe("True if the note changed since review and nothing was written")
+  }),
+  handler: async ({ editedContent, draftId }, agentInfo) => {
+    const config = await getConfig();
+    const draft = await getDraft(config, draftId);
+
+    const result = await commitDraft(config, draft, editedContent);
+    if (result.status === "conflict") {
+      return buildConflictResponse(draft, result, "confirm-note-edit");
+    }
+
+    const cardUI = new CardUIBuilder()
+      .title("Note Updated in Obsidian")
+      .content(`Successfully updated ${result.notePath}`)
+      .build();
+
+    return new DainResponse({
+      text: `Updated ${result.notePath} in Obsidian vault`,
+      data: { notePath: result.notePath, conflict: false },
+      ui: cardUI
+    });
+  }
+};
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date like 2025-01-31");
+
+const dailyMetricsTrendConfig: ToolConfig = {
+  id: "daily-metrics-trend",
+  name: "Daily Note Metrics Trend",
+  description: "Analyzes the 0-10 scores (Energy, Rating, ...) in the daily notes over a date range: series, averages, trends, streaks, missing days and correlations between metrics",
+  input: z.object({
+    days: z.number().int().min(1).max(366).optional().describe("Number of days up to the end date (default 30)"),
+    start: isoDate.optional().describe("First day of the range, overrides days"),
+    end: isoDate.optional().describe("Last day of the range (default today)"),
+    metrics: z.array(z.string()).optional().describe("Only these properties, e.g. ['Energy']")
+  }),
+  output: z.object({
+    start: z.string().describe("First day of the range"),
+    end: z.string().describe("Last day of the range"),
+    missingDays: z.array(z.string()).describe("Days without a daily note"),
+    currentStreak: z.number().describe("Consecutive days with a daily note up to the end date"),
+    longestStreak: z.number().describe("Longest run of consecutive days with a daily note"),
+    metrics: z.array(z.object({
+      metric: z.string(),
+      series: z.array(z.object({ date: z.string(), value: z.number().nullable() })),
+      count: z.number().describe("Days with a value"),
+      average: z.number().nullable(),
+      min: z.number().nullable(),
+      max: z.number().nullable(),
+      latest: z.number().nullable(),
+      slope: z.number().nullable().describe("Average change per day"),
+      currentStreak: z.number().describe("Consecutive days with a value up to the end date"),
+      longestStreak: z.number()
+    })),
+    correlations: z.array(z.object({
+      metrics: z.tuple([z.string(), z.string()]),
+      coefficient: z.number().describe("Pearson correlation between -1 and 1"),
+      days: z.number().describe("Days on which both metrics have a value")
+    }))
+  }),
+  handler: async ({ days, start, end, metrics }, agentInfo) => {
+    const config = await getConfig();
+    const endDate = end ? Temporal.PlainDate.from(end) : userToday(config, agentInfo);
+    const startDate = start ? Temporal.PlainDate.from(start) : endDate.subtract({ days: (days ?? 30) - 1 });
+    if (Temporal.PlainDate.compare(startDate, endDate) > 0) {
+      throw new Error(`Start date ${startDate} is after end date ${endDate}`);
+    }
+    if (startDate.until(endDate).total({ unit: "days" }) > 366) {
+      throw new Error("The date range can be at most a year long");
+    }
+
+    const notes = await readDailyNotes(config, startDate, endDate);
+    const trend = computeMetricsTrend(notes, startDate, endDate, metrics);
+
+    const describeSlope = (slope: number | null) =>
+      slope === null ? "–" : Math.abs(slope) < 0.01 ? "flat" : slope > 0 ? `rising (+${slope}/day)` : `falling (${slope}/day)`;
+
+    const table = new TableUIBuilder()
+      .addColumns([
+        { key: "metric", header: "Metric", type: "text" },
+        { key: "average", header: "Average", type: "number" },
+        { key: "range", header: "Min–Max", type: "text" },
+        { key: "latest", header: "Latest", type: "number" },
+        { key: "trend", header: "Trend", type: "text" },
+        { key: "recorded", header: "Days recorded", type: "text" }
+      ])
+      .rows(trend.metrics.map(stats => ({
+        metric: stats.metric,
+        average: stats.average,
+        range: stats.min === null ? "–" : `${stats.min}–${stats.max}`,
+        latest: stats.latest,
+        trend: describeSlope(stats.slope),
+        recorded: `${stats.count}/${stats.series.length}`
+      })))
+      .build();
+
+    const cardUI = new CardUIBuilder()
+      .title(`Daily Metrics ${trend.start} – ${trend.end}`)
+      .content([
+        `${notes.length} daily notes, ${trend.missingDays.length} days missing. Current streak: ${trend.currentStreak} days, longest: ${trend.longestStreak} days.`,
+        ...trend.correlations.slice(0, 3).map(({ metrics: [a, b], coefficient, days }) =>
+          `${a} and ${b} correlate at ${coefficient} over ${days} days`)
+      ].join("\n"))
+      .addChild(table);
+
+    for (const stats of trend.metrics.filter(stats => stats.count > 0)) {
+      cardUI.addChild(new ChartUIBuilder()
+        .type("line")
+        .title(`${stats.metric} (average ${stats.average})`)
+        .chartData(stats.series.filter(point => point.value !== null))
+        .dataKeys({ x: "date", y: "value" })
+        .build());
+    }
+
+    const summary = trend.metrics.length > 0
+      ? trend.metrics.map(stats => `${stats.metric}: average ${stats.average ?? "n/a"} over ${stats.count} days, ${describeSlope(stats.slope)}`).join("; ")
+      : "No metrics found in the daily notes";
+
+    return new DainResponse({
+      text: `Daily metrics from ${trend.start} to ${trend.end}: ${summary}. ${trend.missingDays.length} of ${notes.length + trend.missingDays.length} days have no daily note.`,
+      data: trend,
+      ui: cardUI.build()
+    });
+  }
+};
+
+const generatePeriodicReviewConfig: ToolConfig = {
+  id: "generate-periodic-review",
+  name: "Generate Periodic Review Note",
+  description: "Summarizes the daily notes of an ISO week, a month or a custom date range into a review note with wins, lessons, recurring improvements and metric averages, linking back to each day. The note is written to the periodic notes folder after confirm-note-edit",
+  input: z.object({
+    period: z.enum(["week", "month", "custom"]).describe("Review an ISO week, a calendar month or the range from date to end"),
+    date: isoDate.optional().describe("A day in the week or month to review, or the first day of a custom range (default today)"),
+    end: isoDate.optional().describe("Last day of a custom range")
+  }),
+  output: z.object({
+    title: z.string().describe("Title of the review note"),
+    notePath: z.string().describe("Vault-relative path the review will be saved to"),
+    start: z.string().describe("First day of the period"),
+    end: z.string().describe("Last day of the period"),
+    days: z.number().describe("Number of daily notes summarized"),
+    fileContent: z.string().describe("Content of the review note"),
+    draftId: z.string().describe("ID of the staged draft, passed to confirm-note-edit")
+  }),
+  handler: async ({ period, date, end }, agentInfo) => {
+    const config = await getConfig();
+    const range = getReviewRange(
+      config,
+      period,
+      date ? Temporal.PlainDate.from(date) : userToday(config, agentInfo),
+      end ? Temporal.PlainDate.from(end) : undefined
+    );
+    if (range.start.until(range.end).total({ unit: "days" }) > 366) {
+      throw new Error("The date range can be at most a year long");
+    }
+
+    const notes = await readDailyNotes(config, range.start, range.end);
+    const { content } = await generateReview(config, range, notes);
+
+    // Generating the review again replaces the earlier one, keeping it in the note history
+    const notePath = path.posix.join(config.periodicNotes.folder, `${range.title}.md`);
+    const existingContent = await fs.readFile(resolveVaultPath(config.vaultPath, notePath), "utf8").catch((error: unknown) => {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    });
+
+    const draft = await createDraft(config, {
+      tool: "generate-periodic-review",
+      notePath,
+      content,
+      baseHash: existingContent === null ? null : hashContent(existingContent),
+      baseContent: existingContent
+    });
 
-    // Create a form for editing the content
     const formUI = new FormUIBuilder()
-      .title("Review and Edit Today's Note")
+      .title("Review and Edit Review Note")
       .addField({
         name: "editedContent",
         label: "Note Content",
         type: "string",
         widget: "textarea",
         required: true,
-        defaultValue: updatedDailyNote,
-        default: updatedDailyNote
+        defaultValue: content,
+        default: content
       })
       .onSubmit({
-        tool: "confirm-update-today-note",
+        tool: "confirm-note-edit",
         paramSchema: {
           editedContent: { type: "string" },
-          fileName: { type: "string" }
+          draftId: { type: "string" }
         },
         params: {
-          fileName: path.basename(todayFilePath)
+          draftId: draft.id
         }
       })
       .build();
 
     const cardUI = new CardUIBuilder()
-      .title("Review Today's Note Update")
-      .content(`Please review and edit the note content if needed:`)
+      .title(`Review ${range.title}`)
+      .content(`Summarized ${notes.length} daily notes from ${range.start} to ${range.end}. ${existingContent === null ? "It will be saved as" : "It will replace"} ${notePath}.`)
       .addChild(formUI)
       .build();
 
     return new DainResponse({
-      text: `Updated today's note. Please review and confirm.`,
-      data: { title, fileName: path.basename(todayFilePath), AIResponse: updatedDailyNote, relatedNotes },
+      text: `Drafted the review ${range.title} from ${notes.length} daily notes. Please review and confirm.`,
+      data: {
+        title: range.title,
+        notePath,
+        start: range.start.toString(),
+        end: range.end.toString(),
+        days: notes.length,
+        fileContent: content,
+        draftId: draft.id
+      },
       ui: cardUI
     });
   }
 };
 
-const confirmUpdateTodayNoteConfig: ToolConfig = {
-  id: "confirm-update-today-note",
-  name: "Confirm and Update Today's Note in Obsidian",
-  description: "Confirms and updates today's note in your Obsidian vault",
+const taskSchema = z.object({
+  notePath: z.string().describe("Vault-relative path of the note"),
+  line: z.number().describe("Line of the task in the note"),
+  status: z.enum(["todo", "in-progress", "done", "cancelled"]),
+  description: z.string().describe("Task text without dates and priority"),
+  tags: z.array(z.string()),
+  priority: z.enum(["highest", "high", "medium", "low", "lowest"]).optional(),
+  due: z.string().optional().describe("Due date"),
+  scheduled: z.string().optional().describe("Scheduled date"),
+  start: z.string().optional().describe("Start date"),
+  done: z.string().optional().describe("Completion date"),
+  recurrence: z.string().optional().describe("Recurrence rule, e.g. 'every week'"),
+  heading: z.string().optional().describe("Heading path the task is under")
+});
+
+function toTaskData({ notePath, line, status, description, tags, priority, due, scheduled, start, done, recurrence, heading }: Task) {
+  return { notePath, line, status, description, tags, priority, due, scheduled, start, done, recurrence, heading };
+}
+
+const listTasksConfig: ToolConfig = {
+  id: "list-tasks",
+  name: "List Obsidian Tasks",
+  description: "Lists the Markdown tasks (- [ ] ...) across the vault, including Tasks plugin due and scheduled dates and priorities, filtered by status, due date, tag or note and sorted by due date",
   input: z.object({
-    editedContent: z.string().describe("Edited content of the note"),
-    fileName: z.string().describe("File name of the note")
+    status: z.enum(["open", "todo", "in-progress", "done", "cancelled", "all"]).optional().describe("Only tasks with this status; open means to do or in progress (default open)"),
+    dueBefore: isoDate.optional().describe("Only tasks due on or before this day"),
+    dueAfter: isoDate.optional().describe("Only tasks due on or after this day"),
+    tag: z.string().optional().describe("Only tasks with this tag, e.g. 'project'"),
+    note: z.string().optional().describe("Only tasks in this note, by title, file name or vault-relative path"),
+    limit: z.number().int().min(1).max(200).optional().describe("Maximum number of tasks (default 50)")
   }),
   output: z.object({
-    title: z.string().describe("Title of the updated note"),
-    fileName: z.string().describe("File name of the updated note")
+    total: z.number().describe("Number of matching tasks"),
+    tasks: z.array(taskSchema)
   }),
-  handler: async ({ editedContent, fileName }, agentInfo) => {
-    const todayFilePath = await getTodayNoteFilePath();
-    const filePath = path.join(todayFilePath);
+  handler: async ({ status, dueBefore, dueAfter, tag, note, limit }, agentInfo) => {
+    const config = await getConfig();
+    const notePath = note ? await locateNote(config, note) : undefined;
+    const matching = filterTasks(await getVaultTasks(config), { status, dueBefore, dueAfter, tag, notePath });
+    const tasks = matching.slice(0, limit ?? 50).map(toTaskData);
 
-    // Write the edited content to the file
-    await fs.writeFile(filePath, editedContent, 'utf8');
+    const table = new TableUIBuilder()
+      .addColumns([
+        { key: "task", header: "Task", type: "text" },
+        { key: "due", header: "Due", type: "text" },
+        { key: "priority", header: "Priority", type: "text" },
+        { key: "note", header: "Note", type: "text" }
+      ])
+      .rows(tasks.map(task => ({
+        task: `${task.status === "done" ? "☑" : task.status === "cancelled" ? "☒" : "☐"} ${task.description}`,
+        due: task.due ?? "",
+        priority: task.priority ?? "",
+        note: `${task.notePath}:${task.line}`
+      })))
+      .build();
 
-    const title = fileName.replace('.md', '')
+    const today = userToday(config, agentInfo).toString();
+    const overdue = tasks.filter(task => task.due && task.due < today && task.status !== "done" && task.status !== "cancelled").length;
 
     const cardUI = new CardUIBuilder()
-      .title("Today's Note Updated in Obsidian")
-      .content(`Successfully updated today's note: ${title}`)
+      .title("Tasks")
+      .content(matching.length > 0
+        ? `${matching.length} tasks${matching.length > tasks.length ? `, showing the first ${tasks.length}` : ""}${overdue > 0 ? `, ${overdue} overdue` : ""}.`
+        : "No tasks match.")
+      .addChild(table)
       .build();
 
     return new DainResponse({
-      text: `Updated today's note "${title}" in Obsidian vault`,
-      data: { title, fileName },
+      text: matching.length > 0
+        ? `Found ${matching.length} tasks: ${tasks.slice(0, 10).map(task => `${task.description}${task.due ? ` (due ${task.due})` : ""}`).join("; ")}`
+        : "No tasks match in Obsidian vault",
+      data: { total: matching.length, tasks },
       ui: cardUI
     });
   }
 };
 
-const searchNotesConfig: ToolConfig = {
-  id: "search-notes",
-  name: "Search Obsidian Notes",
-  description: "Searches for notes in your Obsidian vault",
+const completeTaskConfig: ToolConfig = {
+  id: "complete-task",
+  name: "Complete Obsidian Task",
+  description: "Checks off a task in a note and adds its done date. The task is found by its line from list-tasks or by part of its text; the previous note content is kept in the note history",
+  input: z.object({
+    note: z.string().describe("Title, file name or vault-relative path of the note"),
+    line: z.number().int().min(1).optional().describe("Line of the task from list-tasks"),
+    text: z.string().optional().describe("Part of the task text, used to find the task when the line is not given or has moved")
+  }),
+  output: z.object({
+    notePath: z.string().describe("Vault-relative path of the note"),
+    line: z.number().describe("Line of the completed task"),
+    description: z.string().describe("Text of the completed task")
+  }),
+  handler: async ({ note, line, text }, agentInfo) => {
+    const config = await getConfig();
+    const notePath = await locateNote(config, note);
+    const content = await fs.readFile(resolveVaultPath(config.vaultPath, notePath), "utf8");
+    const task = findTask(parseTasks(content, notePath), line, text);
+    if (task.status === "done") {
+      throw new Error(`"${task.description}" in ${notePath} is already done`);
+    }
+
+    await writeNoteWithHistory(config, notePath, "complete-task", completeTask(content, task, userToday(config, agentInfo)));
+
+    const cardUI = new CardUIBuilder()
+      .title("Task Completed")
+      .content(`Checked off "${task.description}" in ${notePath}.`)
+      .build();
+
+    return new DainResponse({
+      text: `Completed "${task.description}" in ${notePath}`,
+      data: { notePath, line: task.line, description: task.description },
+      ui: cardUI
+    });
+  }
+};
+
+const addTaskConfig: ToolConfig = {
+  id: "add-task",
+  name: "Add Obsidian Task",
+  description: "Adds a task with an optional due date, scheduled date, priority and tags, in the Tasks plugin format. Goes under the tasks heading of today's note by default; the previous note content is kept in the note history",
+  input: z.object({
+    text: z.string().describe("What needs doing"),
+    note: z.string().optional().describe("Title, file name or vault-relative path of the note, defaults to today's daily note"),
+    heading: z.string().optional().describe("Heading to add the task under, added when missing. Defaults to the tasks heading in daily notes and the end of other notes"),
+    due: isoDate.optional().describe("Due date"),
+    scheduled: isoDate.optional().describe("Scheduled date"),
+    priority: z.enum(["highest", "high", "medium", "low", "lowest"]).optional(),
+    tags: z.array(z.string()).optional().describe("Tags without #")
+  }),
+  output: z.object({
+    notePath: z.string().describe("Vault-relative path of the note"),
+    task: z.string().describe("The task line as written")
+  }),
+  handler: async ({ text, note, heading, due, scheduled, priority, tags }, agentInfo) => {
+    const config = await getConfig();
+    // Creates today's note from the daily-note template if it doesn't exist yet
+    const notePath = note
+      ? await locateNote(config, note)
+      : toVaultPath(config.vaultPath, await createDailyNote(config, userToday(config, agentInfo), requestTimeZone(config, agentInfo)));
+    const content = await fs.readFile(resolveVaultPath(config.vaultPath, notePath), "utf8");
+
+    const task = formatTask(text, { tags, priority, due, scheduled });
+    await writeNoteWithHistory(config, notePath, "add-task", insertTask(content, task, heading ?? (note ? undefined : config.tasks.heading)));
+
+    const cardUI = new CardUIBuilder()
+      .title("Task Added")
+      .content(`Added to ${notePath}:\n${task}`)
+      .build();
+
+    return new DainResponse({
+      text: `Added task "${text}" to ${notePath}`,
+      data: { notePath, task },
+      ui: cardUI
+    });
+  }
+};
+
+const importTranscriptsConfig: ToolConfig = {
+  id: "import-transcripts",
+  name: "Import Transcripts into Obsidian",
+  description: "Imports a folder or list of transcript files (plain text, SRT, WebVTT or JSON) into the vault through the note structuring pipeline, as new notes or as sections of the daily note of the day each recording was made. Files imported before are skipped",
   input: z.object({
-    query: z.string().describe("Search query")
+    folder: z.string().optional().describe("Folder of transcript files, absolute or relative to the configured import folder"),
+    files: z.array(z.string()).optional().describe("Transcript files, absolute or relative to the configured import folder"),
+    recursive: z.boolean().optional().describe("Include subfolders of the folder (default false)"),
+    mode: z.enum(["note", "daily"]).optional().describe("Create a note per recording or append to the daily note of its date (default note)"),
+    limit: z.number().int().min(1).max(100).optional().describe("Maximum number of files to import in this call (default 20)")
   }),
   output: z.object({
     results: z.array(z.object({
-      title: z.string().describe("Title of the found note"),
-      snippet: z.string().describe("Snippet of the note content")
+      file: z.string().describe("Path of the transcript file"),
+      status: z.enum(["imported", "skipped", "failed"]),
+      notePath: z.string().optional().describe("Vault-relative path of the note it was imported into"),
+      title: z.string().optional(),
+      recordedAt: z.string().optional().describe("When the recording was made"),
+      recordedFrom: z.enum(["file name", "metadata", "modified time"]).optional().describe("Where the recording time came from"),
+      segments: z.number().optional().describe("Number of transcript segments"),
+      duration: z.number().optional().describe("Length of the recording in seconds"),
+      reason: z.string().optional().describe("Why the file was skipped or failed")
+    })),
+    remaining: z.number().describe("Files left to import in a next call")
+  }),
+  handler: async ({ folder, files, recursive, mode, limit }, agentInfo) => {
+    const config = await getConfig();
+    const filePaths = await Promise.all((files ?? []).map(file => resolveImportPath(config, file)));
+    // Checked after following symlinks, so a link named like a transcript can't import another file
+    const unsupported = filePaths.filter(file => !TRANSCRIPT_EXTENSIONS[path.extname(file).toLowerCase()]);
+    if (unsupported.length > 0) {
+      throw new Error(`Not a transcript file (${Object.keys(TRANSCRIPT_EXTENSIONS).join(", ")}): ${unsupported.join(", ")}`);
+    }
+    const paths = [
+      ...(folder ? await listTranscriptFiles(await resolveImportPath(config, folder), recursive ?? false) : []),
+      ...filePaths
+    ];
+    if (paths.length === 0) {
+      throw new Error("Give a folder or files to import");
+    }
+
+    const { results, remaining } = await importTranscripts(config, [...new Set(paths)], mode ?? "note", limit ?? 20, requestTimeZone(config, agentInfo));
+    const count = (status: string) => results.filter(result => result.status === status).length;
+
+    const table = new TableUIBuilder()
+      .addColumns([
+        { key: "file", header: "File", type: "text" },
+        { key: "status", header: "Status", type: "text" },
+        { key: "note", header: "Note", type: "text" },
+        { key: "recorded", header: "Recorded", type: "text" },
+        { key: "details", header: "Details", type: "text" }
+      ])
+      .rows(results.map(result => ({
+        file: path.basename(result.file),
+        status: result.status,
+        note: result.notePath ?? "",
+        recorded: result.recordedAt ? `${result.recordedAt.replace("T", " ")} (${result.recordedFrom})` : "",
+        details: result.reason ?? (result.processing ? describeProcessing(result.processing) : "")
+      })))
+      .build();
+
+    const summary = `Imported ${count("imported")}, skipped ${count("skipped")}, failed ${count("failed")}${remaining > 0 ? `, ${remaining} left for a next call` : ""}.`;
+    const cardUI = new CardUIBuilder()
+      .title("Transcript Import")
+      .content(summary)
+      .addChild(table)
+      .build();
+
+    return new DainResponse({
+      text: `${summary}${count("imported") > 0 ? ` New content in: ${[...new Set(results.filter(result => result.status === "imported").map(result => result.notePath))].join(", ")}` : ""}`,
+      data: { results: results.map(({ processing, ...result }) => result), remaining },
+      ui: cardUI
+    });
+  }
+};
+
+const vaultIndexStatusConfig: ToolConfig = {
+  id: "vault-index-status",
+  name: "Vault Index Status",
+  description: "Reports whether the vault watcher is keeping the search, link, task and embedding indexes live: changes waiting to be applied, the last sync and recent errors",
+  input: z.object({}),
+  output: z.object({
+    vaultPath: z.string().describe("Path of the watched vault"),
+    watching: z.boolean().describe("Whether changes are picked up as they happen"),
+    startedAt: z.string().optional().describe("When the watcher started"),
+    queueDepth: z.number().describe("Changed paths waiting to be applied"),
+    lastSync: z.string().optional().describe("When changes were last applied to the indexes"),
+    lastEvent: z.string().optional().describe("When the last change was seen"),
+    notesSynced: z.number().describe("Notes updated since the watcher started"),
+    errors: z.array(z.object({ time: z.string(), message: z.string() })).describe("Recent errors, newest last")
+  }),
+  handler: async (input, agentInfo) => {
+    const config = await getConfig();
+    const status = getWatcherStatus(config.vaultPath);
+
+    const cardUI = new CardUIBuilder()
+      .title("Vault Index Status")
+      .content([
+        status.watching
+          ? `Watching ${status.vaultPath} since ${status.startedAt}.`
+          : `Not watching ${status.vaultPath}; the indexes check the vault for changes on every call.`,
+        `${status.queueDepth} changes waiting, ${status.notesSynced} notes synced. Last sync: ${status.lastSync ?? "none yet"}.`,
+        ...status.errors.slice(-5).map(error => `Error at ${error.time}: ${error.message}`)
+      ].join("\n"))
+      .build();
+
+    return new DainResponse({
+      text: `${status.watching ? "Vault watcher running" : "Vault watcher not running"}: ${status.queueDepth} changes waiting, last sync ${status.lastSync ?? "never"}, ${status.errors.length} errors`,
+      data: status,
+      ui: cardUI
+    });
+  }
+};
+
+const llmAuditLogConfig: ToolConfig = {
+  id: "llm-audit-log",
+  name: "Model Provider Audit Log",
+  description: "Lists the requests that sent note content or your input to a model provider: when, for which tool, which request and model, which notes, how many bytes and the hash of what was sent",
+  input: z.object({
+    since: isoDate.optional().describe("Only requests on or after this day"),
+    tool: z.string().optional().describe("Only requests made for this service tool, e.g. 'update-daily-note', or 'background' for indexing"),
+    request: z.string().optional().describe("Only requests with this name, e.g. 'daily_note_edits' or 'embed_notes'"),
+    note: z.string().optional().describe("Only requests that included this vault-relative note path"),
+    limit: z.number().int().min(1).max(500).optional().describe("Maximum number of requests, newest first (default 50)")
+  }),
+  output: z.object({
+    records: z.array(z.object({
+      time: z.string().describe("When the request was made"),
+      kind: z.enum(["chat", "embedding"]),
+      task: z.string().describe("Model task, e.g. 'cleanup'"),
+      tool: z.string().describe("Service tool the request was made for"),
+      request: z.string().describe("Name of the request"),
+      provider: z.string(),
+      model: z.string(),
+      notes: z.array(z.string()).describe("Vault-relative paths of the notes whose content was sent"),
+      bytes: z.number().describe("Size of the text sent"),
+      hash: z.string().describe("SHA-256 of the text sent"),
+      redactions: z.number().describe("Matches of the redaction patterns replaced before sending")
+    })),
+    totalBytes: z.number().describe("Bytes sent by the listed requests")
+  }),
+  handler: async ({ since, tool, request, note, limit }, agentInfo) => {
+    const config = await getConfig();
+    const records = await readAuditLog(config, {
+      since: since ? Temporal.PlainDate.from(since) : undefined,
+      tool,
+      request,
+      note: note ? normalizeNotePath(note) : undefined,
+      limit: limit ?? 50,
+      timeZone: requestTimeZone(config, agentInfo)
+    });
+    const totalBytes = records.reduce((sum, record) => sum + record.bytes, 0);
+
+    const table = new TableUIBuilder()
+      .addColumns([
+        { key: "time", header: "Time", type: "text" },
+        { key: "tool", header: "Tool", type: "text" },
+        { key: "request", header: "Request", type: "text" },
+        { key: "model", header: "Model", type: "text" },
+        { key: "notes", header: "Notes", type: "text" },
+        { key: "bytes", header: "Bytes", type: "number" },
+        { key: "redactions", header: "Redactions", type: "number" }
+      ])
+      .rows(records.map(record => ({
+        time: record.time.replace("T", " ").slice(0, 19),
+        tool: record.tool,
+        request: `${record.request} (${record.kind})`,
+        model: `${record.provider}:${record.model}`,
+        notes: record.notes.join(", "),
+        bytes: record.bytes,
+        redactions: record.redactions
+      })))
+      .build();
+
+    const summary = records.length > 0
+      ? `${records.length} requests sent ${totalBytes} bytes${config.privacy.audit ? "" : ". Auditing is turned off, so newer requests aren't recorded"}.`
+      : `No recorded requests match${config.privacy.audit ? "" : "; auditing is turned off"}.`;
+    const cardUI = new CardUIBuilder()
+      .title("Model Provider Audit Log")
+      .content(summary)
+      .addChild(table)
+      .build();
+
+    return new DainResponse({
+      text: summary,
+      data: { records, totalBytes },
+      ui: cardUI
+    });
+  }
+};
+
+const askVaultConfig: ToolConfig = {
+  id: "ask-vault",
+  name: "Ask Obsidian Vault",
+  description: "Answers a question from your Obsidian notes, e.g. \"what did I decide about the Dain project last month?\". The answer only uses retrieved passages and cites every claim with a [[Note#Heading]] link and a quote. Says so when the notes don't contain the answer",
+  input: z.object({
+    question: z.string().describe("The question to answer"),
+    folder: z.string().optional().describe("Only use notes in this vault-relative folder"),
+    tag: z.string().optional().describe("Only use notes with this tag, e.g. 'project/dain'"),
+    start: isoDate.optional().describe("Only use notes dated on or after this day (daily note date, else created date, else last modified)"),
+    end: isoDate.optional().describe("Only use notes dated on or before this day")
+  }),
+  output: z.object({
+    found: z.boolean().describe("Whether the notes contain the answer"),
+    answer: z.string().describe("The answer in markdown, each claim followed by links to its sources"),
+    missing: z.string().describe("What the notes don't say, when the answer is missing or partial"),
+    citations: z.array(z.object({
+      path: z.string().describe("Vault-relative path of the cited note"),
+      link: z.string().describe("Link target of the cited section, e.g. \"Note#Heading\""),
+      heading: z.string().describe("Heading path of the cited section"),
+      quote: z.string().describe("Quoted excerpt of the section")
+    })),
+    passagesSearched: z.number().describe("Passages retrieved for the question")
+  }),
+  handler: async ({ question, folder, tag, start, end }, agentInfo) => {
+    const config = await getConfig();
+    const result = await askVault(config, question, {
+      folder,
+      tag,
+      start: start ? Temporal.PlainDate.from(start) : undefined,
+      end: end ? Temporal.PlainDate.from(end) : undefined
+    }, requestTimeZone(config, agentInfo));
+
+    const content = result.found
+      ? `${result.answer}${result.missing ? `\n\nNot in your notes: ${result.missing}` : ""}`
+      : `Your notes don't answer this. ${result.missing}`;
+    const cardUI = new CardUIBuilder()
+      .title(question)
+      .content(`${content}${result.unsupportedClaims > 0 ? `\n\n${result.unsupportedClaims} claim(s) left out because their quotes weren't found in the notes.` : ""}`);
+    if (result.citations.length > 0) {
+      cardUI.addChild(new TableUIBuilder()
+        .addColumns([
+          { key: "source", header: "Source", type: "text" },
+          { key: "quote", header: "Quote", type: "text" }
+        ])
+        .rows(result.citations.map(citation => ({ source: `[[${citation.link}]]`, quote: `"${citation.quote}"` })))
+        .build());
+    }
+
+    return new DainResponse({
+      text: result.found
+        ? `${result.answer}\n\nSources:\n${result.citations.map(citation => `- [[${citation.link}]]: "${citation.quote}"`).join("\n")}`
+        : `The vault doesn't contain an answer to "${question}". ${result.missing}`,
+      data: {
+        found: result.found,
+        answer: result.answer,
+        missing: result.missing,
+        citations: result.citations,
+        passagesSearched: result.passages.length
+      },
+      ui: cardUI.build()
+    });
+  }
+};
+
+const moveOutput = z.object({
+  moveId: z.string().describe("ID of the staged move, passed to confirm-move-note"),
+  from: z.string().describe("Vault-relative path of the note now"),
+  to: z.string().describe("Vault-relative path the note will have"),
+  affectedNotes: z.array(z.object({
+    notePath: z.string().describe("Vault-relative path of a note whose links change"),
+    changes: z.array(z.object({
+      line: z.number().describe("Line of the link in the file"),
+      before: z.string().describe("The link as it is"),
+      after: z.string().describe("The link after the move")
     }))
+  }))
+});
+
+/**
+ * Card listing every link a staged move will change, with a form to confirm it.
+ */
+function buildMovePreview(plan: MovePlan, title: string, intro: string = "", data: Record<string, unknown> = {}) {
+  const linkCount = plan.edits.reduce((sum, edit) => sum + edit.changes.length, 0);
+  const summary = plan.edits.length > 0
+    ? `${plan.from} will be moved to ${plan.to}. ${linkCount} link(s) in ${plan.edits.length} note(s) will be updated:\n\n${plan.edits
+      .map(edit => `- ${edit.notePath} (${edit.changes.length})`)
+      .join("\n")}`
+    : `${plan.from} will be moved to ${plan.to}. No links need to change.`;
+
+  const formUI = new FormUIBuilder()
+    .title("Confirm Move")
+    .addField({
+      name: "destination",
+      label: "Destination (vault-relative path; change it to review a different one)",
+      type: "string",
+      required: true,
+      defaultValue: plan.to,
+      default: plan.to
+    })
+    .onSubmit({
+      tool: "confirm-move-note",
+      paramSchema: {
+        destination: { type: "string" },
+        moveId: { type: "string" }
+      },
+      params: {
+        moveId: plan.id
+      }
+    })
+    .build();
+
+  const cardUI = new CardUIBuilder()
+    .title(title)
+    .content(`${intro}${summary}`);
+  if (linkCount > 0) {
+    cardUI.addChild(new TableUIBuilder()
+      .addColumns([
+        { key: "note", header: "Note", type: "text" },
+        { key: "line", header: "Line", type: "number" },
+        { key: "before", header: "Before", type: "text" },
+        { key: "after", header: "After", type: "text" }
+      ])
+      .rows(plan.edits.flatMap(edit => edit.changes.map(change => ({ note: edit.notePath, ...change }))))
+      .build());
+  }
+  cardUI.addChild(formUI);
+
+  return new DainResponse({
+    text: `${intro}Staged moving ${plan.from} to ${plan.to}, updating ${linkCount} link(s) in ${plan.edits.length} note(s). Please review and confirm.`,
+    data: {
+      moveId: plan.id,
+      from: plan.from,
+      to: plan.to,
+      affectedNotes: plan.edits.map(({ notePath, changes }) => ({ notePath, changes })),
+      ...data
+    },
+    ui: cardUI.build()
+  });
+}
+
+const renameNoteConfig: ToolConfig = {
+  id: "rename-note",
+  name: "Rename Obsidian Note",
+  description: "Drafts renaming a note within its folder and updating every wikilink, embed, heading link and relative markdown link to it across the vault. Shows the affected notes; nothing changes until confirm-move-note",
+  input: z.object({
+    note: z.string().describe("Title, file name or vault-relative path of the note"),
+    newName: z.string().describe("New title of the note, without folder")
   }),
-  handler: async ({ query }, agentInfo) => {
-    // Implement search logic here
-    // This is a placeholder and would need to be replaced with actual search functionality
-    const searchResults = [{ title: "Example Note", snippet: "This is a sample result." }];
+  output: moveOutput,
+  handler: async ({ note, newName }, agentInfo) => {
+    const config = await getConfig();
+    const from = await locateNote(config, note);
+    const folder = path.posix.dirname(from);
+    const fileName = `${sanitizeFileName(newName.trim().replace(/\.md$/i, ""))}.md`;
+    const plan = await stageMove(config, "rename-note", from, folder === "." ? fileName : `${folder}/${fileName}`);
+    return buildMovePreview(plan, "Review Note Rename");
+  }
+};
+
+const moveNoteConfig: ToolConfig = {
+  id: "move-note",
+  name: "Move Obsidian Note",
+  description: "Drafts moving a note to another folder, which is created if needed, and updating every wikilink, embed, heading link and relative markdown link to it across the vault. Shows the affected notes; nothing changes until confirm-move-note",
+  input: z.object({
+    note: z.string().describe("Title, file name or vault-relative path of the note"),
+    folder: z.string().describe("Vault-relative destination folder, empty for the vault root")
+  }),
+  output: moveOutput,
+  handler: async ({ note, folder }, agentInfo) => {
+    const config = await getConfig();
+    const from = await locateNote(config, note);
+    const destination = folder.trim().replace(/\\/g, "/").replace(/^\/+|\/+$/g, "");
+    const fileName = path.posix.basename(from);
+    const plan = await stageMove(config, "move-note", from, destination ? `${destination}/${fileName}` : fileName);
+    return buildMovePreview(plan, "Review Note Move");
+  }
+};
 
+const confirmMoveNoteConfig: ToolConfig = {
+  id: "confirm-move-note",
+  name: "Confirm Obsidian Note Move",
+  description: "Confirms a rename or move drafted by rename-note or move-note: moves the note and updates the links to it. When a changed destination is given, or an affected note was edited since review, a new preview is shown instead",
+  input: z.object({
+    moveId: z.string().describe("ID of the move to confirm"),
+    destination: z.string().optional().describe("Vault-relative path to move the note to, if different from the reviewed one")
+  }),
+  output: moveOutput.partial({ moveId: true, affectedNotes: true }).extend({
+    from: z.string().describe("Previous vault-relative path of the note"),
+    to: z.string().describe("New vault-relative path of the note"),
+    updatedNotes: z.array(z.string()).describe("Notes whose links were updated"),
+    staleNotes: z.array(z.string()).describe("Notes that still link to the previous path because updating them failed"),
+    moved: z.boolean().describe("False if a new preview was shown and nothing was moved; moveId and affectedNotes then describe it")
+  }),
+  handler: async ({ moveId, destination }, agentInfo) => {
+    const config = await getConfig();
+    const plan = await getMove(config, moveId);
+
+    if (destination && normalizeNotePath(destination) !== plan.to) {
+      const replanned = await stageMove(config, plan.tool, plan.from, normalizeNotePath(destination));
+      await discardMove(config, plan.id);
+      return buildMovePreview(replanned, "Review Note Move", "", { updatedNotes: [], staleNotes: [], moved: false });
+    }
+
+    const result = await commitMove(config, plan);
+    if (result.status === "changed") {
+      return buildMovePreview(result.plan, "Notes Changed Since Review",
+        "Some of the affected notes were edited after you reviewed the move, so nothing was moved yet. The link updates were planned again. ",
+        { updatedNotes: [], staleNotes: [], moved: false });
+    }
+
+    const stale = result.staleNotes.length > 0
+      ? `\n\nUpdating these notes failed, so they still link to ${result.from}:\n\n${result.staleNotes.map(notePath => `- ${notePath}`).join("\n")}`
+      : "";
     const cardUI = new CardUIBuilder()
-      .title("Search Results")
-      .content(`Found ${searchResults.length} results for "${query}"`)
+      .title("Note Moved in Obsidian")
+      .content(`${result.updatedNotes.length > 0
+        ? `Moved ${result.from} to ${result.to} and updated the links in:\n\n${result.updatedNotes.map(notePath => `- ${notePath}`).join("\n")}`
+        : `Moved ${result.from} to ${result.to}`}${stale}`)
       .build();
 
-    return {
-      text: `Searched for "${query}" in Obsidian vault`,
-      data: { results: searchResults },
+    return new DainResponse({
+      text: `Moved ${result.from} to ${result.to}${result.updatedNotes.length > 0 ? `, updating links in ${result.updatedNotes.length} note(s)` : ""}${result.staleNotes.length > 0 ? `. Links in ${result.staleNotes.join(", ")} could not be updated and still point to ${result.from}` : ""}`,
+      data: { from: result.from, to: result.to, updatedNotes: result.updatedNotes, staleNotes: result.staleNotes, moved: true },
       ui: cardUI
-    };
+    });
+  }
+};
+
+const usageReportConfig: ToolConfig = {
+  id: "usage-report",
+  name: "Model Usage Report",
+  description: "Summarizes the tokens and estimated cost of model requests by tool and day, how many were answered from the cache, and today's spend against the configured budgets",
+  input: z.object({
+    since: isoDate.optional().describe("First day of the report (default 30 days ago)"),
+    until: isoDate.optional().describe("Last day of the report (default today)"),
+    tool: z.string().optional().describe("Only requests made by this tool, e.g. 'add-note', or 'background' for indexing")
+  }),
+  output: z.object({
+    days: z.array(z.object({
+      date: z.string(),
+      tool: z.string().describe("Tool the requests were made for"),
+      requests: z.number(),
+      cachedRequests: z.number().describe("Requests answered from the cache"),
+      inputTokens: z.number(),
+      outputTokens: z.number(),
+      cost: z.number().describe("Estimated cost in US dollars")
+    })),
+    totalCost: z.number().describe("Estimated cost of the whole period in US dollars"),
+    spentToday: z.number().describe("Estimated spend today in US dollars"),
+    dailyBudget: z.number().optional().describe("Daily budget in US dollars, if set")
+  }),
+  handler: async ({ since, until, tool }, agentInfo) => {
+    const config = await getConfig();
+    const timeZone = requestTimeZone(config, agentInfo);
+    const end = until ? Temporal.PlainDate.from(until) : userToday(config, agentInfo);
+    const start = since ? Temporal.PlainDate.from(since) : end.subtract({ days: 30 });
+    const days = summarizeUsage(await readUsage(config, { since: start, until: end, tool, timeZone }), timeZone);
+    const totalCost = days.reduce((sum, day) => sum + day.cost, 0);
+    const spent = await getSpendToday(config, tool ?? "");
+    const { dailyBudget, toolBudgets } = config.usage;
+
+    const byTool = new Map<string, number>();
+    for (const day of days) byTool.set(day.tool, (byTool.get(day.tool) ?? 0) + day.cost);
+    const budgets = [
+      ...(dailyBudget !== undefined ? [`$${spent.total.toFixed(2)} of the $${dailyBudget.toFixed(2)} daily budget spent today`] : []),
+      ...Object.entries(toolBudgets).map(([name, budget]) => `${name}: budget $${budget.toFixed(2)} per day`)
+    ];
+    const summary = days.length > 0
+      ? `Estimated $${totalCost.toFixed(2)} from ${start} to ${end}: ${[...byTool.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([name, cost]) => `${name} $${cost.toFixed(2)}`)
+        .join(", ")}. ${days.reduce((sum, day) => sum + day.cachedRequests, 0)} of ${days.reduce((sum, day) => sum + day.requests, 0)} requests came from the cache.`
+      : `No model requests from ${start} to ${end}.`;
+
+    const cardUI = new CardUIBuilder()
+      .title("Model Usage")
+      .content(budgets.length > 0 ? `${summary}\n\n${budgets.join("\n")}` : summary);
+    if (days.length > 0) {
+      const costByDate = new Map<string, number>();
+      for (const day of days) costByDate.set(day.date, (costByDate.get(day.date) ?? 0) + day.cost);
+      cardUI.addChild(new ChartUIBuilder()
+        .type("bar")
+        .title("Estimated cost per day (USD)")
+        .chartData([...costByDate.entries()].reverse().map(([date, cost]) => ({ date, cost: Math.round(cost * 10000) / 10000 })))
+        .dataKeys({ x: "date", y: "cost" })
+        .build());
+      cardUI.addChild(new TableUIBuilder()
+        .addColumns([
+          { key: "date", header: "Day", type: "text" },
+          { key: "tool", header: "Tool", type: "text" },
+          { key: "requests", header: "Requests", type: "number" },
+          { key: "cachedRequests", header: "Cached", type: "number" },
+          { key: "tokens", header: "Tokens (in / out)", type: "text" },
+          { key: "cost", header: "Cost (USD)", type: "text" }
+        ])
+        .rows(days.map(day => ({
+          date: day.date,
+          tool: day.tool,
+          requests: day.requests,
+          cachedRequests: day.cachedRequests,
+          tokens: `${day.inputTokens} / ${day.outputTokens}`,
+          cost: `$${day.cost.toFixed(4)}`
+        })))
+        .build());
+    }
+
+    return new DainResponse({
+      text: summary,
+      data: { days, totalCost, spentToday: spent.total, dailyBudget },
+      ui: cardUI.build()
+    });
   }
 };
 
+/**
+ * Attribute the model requests a tool makes to the tool, for usage-report and the per-tool budgets.
+ */
+function trackUsage(tool: ToolConfig): ToolConfig {
+  return { ...tool, handler: (...args: Parameters<ToolConfig["handler"]>) => runWithTool(tool.id, () => tool.handler(...args)) };
+}
+
 const dainService = defineDAINService({
   metadata: {
     title: "Obsidian Integration Service",
@@ -268,9 +1951,46 @@ const dainService = defineDAINService({
   identity: {
     apiKey: process.env.DAIN_API_KEY,
   },
-  tools: [addNoteConfig, searchNotesConfig, updateTodayNoteConfig, confirmAddNoteConfig, confirmUpdateTodayNoteConfig],
+  tools: [
+    addNoteConfig,
+    searchNotesConfig,
+    updateDailyNoteConfig,
+    confirmAddNoteConfig,
+    confirmUpdateDailyNoteConfig,
+    listNoteHistoryConfig,
+    diffNoteVersionConfig,
+    restoreNoteVersionConfig,
+    getBacklinksConfig,
+    getOutgoingLinksConfig,
+    findOrphanNotesConfig,
+    findUnresolvedLinksConfig,
+    readNoteConfig,
+    appendToSectionConfig,
+    insertUnderHeadingConfig,
+    confirmNoteEditConfig,
+    dailyMetricsTrendConfig,
+    generatePeriodicReviewConfig,
+    listTasksConfig,
+    completeTaskConfig,
+    addTaskConfig,
+    importTranscriptsConfig,
+    vaultIndexStatusConfig,
+    askVaultConfig,
+    llmAuditLogConfig,
+    renameNoteConfig,
+    moveNoteConfig,
+    confirmMoveNoteConfig,
+    usageReportConfig
+  ].map(trackUsage),
 });
 
-dainService.startNode({ port: 2023 }).then(() => {
+dainService.startNode({ port: 2023 }).then(async () => {
   console.log("Obsidian Integration Service is running on port 2023");
+  // Keep the indexes in step with edits made in Obsidian
+  try {
+    const status = await startVaultWatcher(await getConfig());
+    console.log(status.watching ? `Watching ${status.vaultPath} for changes` : "Vault watcher failed to start, indexes will rescan the vault");
+  } catch (error) {
+    console.error("Failed to start the vault watcher:", error);
+  }
 });
@@ -0,0 +1,296 @@
+import path from "path";
+import { VaultConfig } from "./config";
+import { refreshSearchIndex } from "./search";
+import { listMarkdownFiles } from "./vault";
+
+/**
+ * A link found in a note, before it is resolved to a file.
+ */
+export interface NoteLink {
+  /** Link text as written, e.g. "[[Project#Goals|goals]]" */
+  raw: string;
+  /** Link path without heading or block reference, e.g. "Project" */
+  target: string;
+  /** Heading ("#Goals") or block ("#^abc123") reference, if any */
+  subpath?: string;
+  /** Display text, e.g. "goals" */
+  alias?: string;
+  /** Whether the link is an embed (`![[...]]` or `![](...)`) */
+  embed: boolean;
+  kind: "wikilink" | "markdown";
+  /** 1-based line in the note body, or 0 for links in the frontmatter */
+  line: number;
+}
+
+export interface ResolvedLink extends NoteLink {
+  /** Note the link appears in */
+  source: string;
+  /** Vault-relative path of the linked note, undefined when it doesn't exist */
+  resolved?: string;
+}
+
+export interface LinkGraph {
+  /** Links to notes, by the note they appear in */
+  outgoing: Map<string, ResolvedLink[]>;
+  /** Resolved links, by the note they point to */
+  backlinks: Map<string, ResolvedLink[]>;
+  /** Every indexed note */
+  notes: string[];
+}
+
+const parsedLinks = new Map<string, { mtimeMs: number; links: NoteLink[] }>();
+
+/**
+ * Blank out fenced and inline code so links inside code are ignored,
+ * keeping line breaks so line numbers stay correct.
+ */
+function maskCode(markdown: string): string {
+  const blank = (code: string) => code.replace(/[^\n]/g, " ");
+  return markdown
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, blank)
+    .replace(/`[^`\n]*`/g, blank);
+}
+
+function lineAt(text: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i++) {
+    if (text[i] === "\n") line++;
+  }
+  return line;
+}
+
+/**
+ * Split a link path such as "Note#Heading" or "Note^block" into the note and the reference.
+ */
+function splitSubpath(linkPath: string): { target: string; subpath?: string } {
+  const match = linkPath.match(/^([^#^]*)((?:#\^?|\^)[\s\S]*)?$/);
+  if (!match?.[2]) {
+    return { target: linkPath.trim() };
+  }
+  const subpath = match[2].startsWith("^") ? `#${match[2]}` : match[2];
+  return { target: match[1].trim(), subpath: subpath.trim() };
+}
+
+const WIKILINK = /(!?)\[\[([^\[\]\n]+?)\]\]/g;
+const MARKDOWN_LINK = /(!?)\[([^\]\n]*)\]\((<[^>\n]+>|[^)\s]+)(?:\s+"[^"\n]*")?\)/g;
+
+function wikilinkFromMatch(match: RegExpMatchArray, line: number): NoteLink {
+  const [linkPath, ...alias] = match[2].split("|");
+  return {
+    raw: match[0],
+    ...splitSubpath(linkPath),
+    alias: alias.length > 0 ? alias.join("|").trim() : undefined,
+    embed: match[1] === "!",
+    kind: "wikilink",
+    line
+  };
+}
+
+function markdownLinkFromMatch(match: RegExpMatchArray, line: number): NoteLink | undefined {
+  const href = match[3].replace(/^<|>$/g, "");
+  // External links and URIs (https:, mailto:, obsidian:, ...) aren't part of the vault graph
+  if (/^[a-z][a-z0-9+.-]*:/i.test(href)) return undefined;
+  let linkPath: string;
+  try {
+    linkPath = decodeURI(href);
+  } catch {
+    linkPath = href;
+  }
+  return {
+    raw: match[0],
+    ...splitSubpath(linkPath),
+    alias: match[2] || undefined,
+    embed: match[1] === "!",
+    kind: "markdown",
+    line
+  };
+}
+
+function parseWikilinks(text: string, line: (index: number) => number): NoteLink[] {
+  return [...text.matchAll(WIKILINK)].map(match => wikilinkFromMatch(match, line(match.index!)));
+}
+
+function parseMarkdownLinks(text: string, line: (index: number) => number): NoteLink[] {
+  return [...text.matchAll(MARKDOWN_LINK)]
+    .map(match => markdownLinkFromMatch(match, line(match.index!)))
+    .filter((link): link is NoteLink => !!link);
+}
+
+function collectFrontmatterStrings(value: unknown, strings: string[] = []): string[] {
+  if (typeof value === "string") {
+    strings.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectFrontmatterStrings(item, strings));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach(item => collectFrontmatterStrings(item, strings));
+  }
+  return strings;
+}
+
+/**
+ * Find the wikilinks, embeds and internal markdown links in a note, including
+ * wikilinks in frontmatter properties. Links inside code are ignored.
+ */
+export function parseLinks(body: string, frontmatter: Record<string, unknown> = {}): NoteLink[] {
+  const text = maskCode(body);
+  const line = (index: number) => lineAt(text, index);
+  const frontmatterLinks = collectFrontmatterStrings(frontmatter).flatMap(value => parseWikilinks(value, () => 0));
+  return [...frontmatterLinks, ...parseWikilinks(text, line), ...parseMarkdownLinks(text, line)]
+    .sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Rewrite the links of a whole note file, frontmatter included. `rewrite` gets
+ * every wikilink, embed and internal markdown link and returns its new text,
+ * or undefined to leave it as it is; `link.line` is the line in the file.
+ * Links inside code are left alone.
+ */
+export function rewriteLinks(content: string, rewrite: (link: NoteLink) => string | undefined): string {
+  const text = maskCode(content);
+  const replacements: { start: number; end: number; text: string }[] = [];
+  const collect = (pattern: RegExp, toLink: (match: RegExpMatchArray, line: number) => NoteLink | undefined) => {
+    for (const match of text.matchAll(pattern)) {
+      const link = toLink(match, lineAt(text, match.index!));
+      const replacement = link && rewrite(link);
+      if (replacement !== undefined && replacement !== match[0]) {
+        replacements.push({ start: match.index!, end: match.index! + match[0].length, text: replacement });
+      }
+    }
+  };
+  collect(WIKILINK, wikilinkFromMatch);
+  collect(MARKDOWN_LINK, markdownLinkFromMatch);
+
+  // Markdown link text can't contain a wikilink's "]]", so the two kinds never overlap
+  let result = content;
+  for (const { start, end, text: replacement } of replacements.sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, start) + replacement + result.slice(end);
+  }
+  return result;
+}
+
+/**
+ * Whether a link points to a note rather than an attachment such as an image or PDF.
+ */
+export function isNoteLink(link: NoteLink): boolean {
+  const extension = path.posix.extname(link.target).toLowerCase();
+  return extension === "" || extension === ".md";
+}
+
+/**
+ * Resolve a link path to a note the way Obsidian does: paths are matched
+ * case-insensitively, either in full or as the end of a note's path, so
+ * "[[Idea]]" finds "Projects/Idea.md". When several notes match, the one
+ * next to the linking note wins, then the one with the shortest path.
+ */
+export function resolveLinkTarget(target: string, sourcePath: string, notePaths: string[]): string | undefined {
+  // A bare "#Heading" link points into the note itself
+  if (target === "") return sourcePath;
+
+  let linkPath = target.replace(/\\/g, "/").replace(/^\/+/, "").toLowerCase();
+  if (!linkPath.endsWith(".md")) linkPath += ".md";
+
+  // Markdown links are usually relative to the linking note
+  const sourceFolder = path.posix.dirname(sourcePath);
+  const relative = path.posix.normalize(path.posix.join(sourceFolder, linkPath));
+
+  const candidates = notePaths.filter(notePath => {
+    const lower = notePath.toLowerCase();
+    return lower === linkPath || lower.endsWith(`/${linkPath}`) || lower === relative;
+  });
+  if (candidates.length <= 1) return candidates[0];
+
+  return candidates.find(candidate => candidate.toLowerCase() === linkPath)
+    ?? candidates.find(candidate => candidate.toLowerCase() === relative)
+    ?? candidates.sort((a, b) => a.split("/").length - b.split("/").length || a.length - b.length || a.localeCompare(b))[0];
+}
+
+/**
+ * Build the link graph of the indexed notes. Links are parsed once per note
+ * version and resolved against every markdown file in the vault, so a link to
+ * a note excluded from indexing still counts as resolved.
+ */
+export async function getLinkGraph(config: VaultConfig): Promise<LinkGraph> {
+  const index = await refreshSearchIndex(config);
+  const allNotes = await listMarkdownFiles(config.vaultPath);
+
+  const outgoing = new Map<string, ResolvedLink[]>();
+  const backlinks = new Map<string, ResolvedLink[]>();
+
+  for (const [notePath, { note }] of index.notes) {
+    const cacheKey = `${config.vaultPath}\0${notePath}`;
+    let cached = parsedLinks.get(cacheKey);
+    if (!cached || cached.mtimeMs !== note.mtimeMs) {
+      cached = { mtimeMs: note.mtimeMs, links: parseLinks(note.body, note.frontmatter) };
+      parsedLinks.set(cacheKey, cached);
+    }
+
+    const links = cached.links
+      .filter(isNoteLink)
+      .map(link => ({ ...link, source: notePath, resolved: resolveLinkTarget(link.target, notePath, allNotes) }));
+    outgoing.set(notePath, links);
+
+    for (const link of links) {
+      if (!link.resolved || link.resolved === notePath) continue;
+      const incoming = backlinks.get(link.resolved) ?? [];
+      incoming.push(link);
+      backlinks.set(link.resolved, incoming);
+    }
+  }
+
+  // Forget notes that were deleted or excluded since the last call
+  for (const cacheKey of parsedLinks.keys()) {
+    const [vaultPath, notePath] = cacheKey.split("\0");
+    if (vaultPath === config.vaultPath && !index.notes.has(notePath)) {
+      parsedLinks.delete(cacheKey);
+    }
+  }
+
+  return { outgoing, backlinks, notes: [...index.notes.keys()] };
+}
+
+/**
+ * Find an indexed note by vault-relative path, file name or title,
+ * using the same resolution as wikilinks.
+ */
+export function findNote(graph: LinkGraph, note: string): string | undefined {
+  return resolveLinkTarget(note.replace(/^\[\[|\]\]$/g, "").split(/[#|]/)[0], "", graph.notes);
+}
+
+/**
+ * Find any note in the vault by vault-relative path, file name or title,
+ * using the same resolution as wikilinks. Throws when there is no such note.
+ */
+export async function locateNote(config: VaultConfig, note: string): Promise<string> {
+  const notePaths = await listMarkdownFiles(config.vaultPath);
+  const notePath = note.trim() && resolveLinkTarget(note.trim().replace(/^\[\[|\]\]$/g, "").split(/[#|]/)[0], "", notePaths);
+  if (!notePath) {
+    throw new Error(`Note "${note}" not found in the vault`);
+  }
+  return notePath;
+}
+
+/**
+ * Notes without incoming or outgoing links to other notes.
+ */
+export function findOrphanNotes(graph: LinkGraph): string[] {
+  return graph.notes
+    .filter(notePath => !graph.backlinks.has(notePath))
+    .filter(notePath => !(graph.outgoing.get(notePath) ?? []).some(link => link.resolved && link.resolved !== notePath))
+    .sort();
+}
+
+/**
+ * Links pointing to notes that don't exist, grouped by the missing target.
+ */
+export function findUnresolvedLinks(graph: LinkGraph): { target: string; links: ResolvedLink[] }[] {
+  const byTarget = new Map<string, { target: string; links: ResolvedLink[] }>();
+  for (const links of graph.outgoing.values()) {
+    for (const link of links.filter(link => !link.resolved)) {
+      const key = link.target.toLowerCase();
+      const entry = byTarget.get(key) ?? { target: link.target, links: [] };
+      entry.links.push(link);
+      byTarget.set(key, entry);
+    }
+  }
+  return [...byTarget.values()].sort((a, b) => b.links.length - a.links.length || a.target.localeCompare(b.target));
+}
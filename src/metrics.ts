@@ -0,0 +1,184 @@
+import { Temporal } from "@js-temporal/polyfill";
+import type { DailyNote } from "./utils";
+
+export interface MetricPoint {
+  date: string;
+  value: number | null;
+}
+
+export interface MetricStats {
+  metric: string;
+  series: MetricPoint[];
+  /** Number of days with a value */
+  count: number;
+  average: number | null;
+  min: number | null;
+  max: number | null;
+  latest: number | null;
+  /** Average change per day from a least-squares fit, null with fewer than two values */
+  slope: number | null;
+  /** Consecutive days with a value, ending at the last day of the range */
+  currentStreak: number;
+  longestStreak: number;
+}
+
+export interface MetricCorrelation {
+  metrics: [string, string];
+  /** Pearson correlation coefficient between -1 and 1 */
+  coefficient: number;
+  /** Days on which both metrics have a value */
+  days: number;
+}
+
+export interface MetricsTrend {
+  start: string;
+  end: string;
+  /** Days in the range without a daily note */
+  missingDays: string[];
+  /** Consecutive days with a daily note, ending at the last day of the range */
+  currentStreak: number;
+  longestStreak: number;
+  metrics: MetricStats[];
+  correlations: MetricCorrelation[];
+}
+
+const MIN_SCORE = 0;
+const MAX_SCORE = 10;
+
+// Correlations over fewer days than this are mostly noise
+const MIN_CORRELATION_DAYS = 3;
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Read a metric value from a frontmatter property. Numbers written as strings
+ * (e.g. "8" or "7.5") count too; anything else is treated as missing.
+ */
+function toMetricValue(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && /^\s*-?\d+(?:\.\d+)?\s*$/.test(value)) return Number(value);
+  return null;
+}
+
+function streaks(present: boolean[]): { current: number; longest: number } {
+  let run = 0;
+  let longest = 0;
+  for (const day of present) {
+    run = day ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+  return { current: run, longest };
+}
+
+function slopeOf(points: { x: number; y: number }[]): number | null {
+  if (points.length < 2) return null;
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  const covariance = points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0);
+  const variance = points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0);
+  return variance === 0 ? null : covariance / variance;
+}
+
+function pearson(pairs: [number, number][]): number | null {
+  const n = pairs.length;
+  const meanA = pairs.reduce((sum, [a]) => sum + a, 0) / n;
+  const meanB = pairs.reduce((sum, [, b]) => sum + b, 0) / n;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (const [a, b] of pairs) {
+    covariance += (a - meanA) * (b - meanB);
+    varianceA += (a - meanA) ** 2;
+    varianceB += (b - meanB) ** 2;
+  }
+  // A metric that never changes doesn't correlate with anything
+  if (varianceA === 0 || varianceB === 0) return null;
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+/**
+ * Compute per-metric series and statistics, note streaks and correlations
+ * between metrics from the numeric frontmatter properties of daily notes.
+ * By default every property holding 0-10 scores is a metric; when `metricNames`
+ * is given, exactly those properties (case-insensitive) are used.
+ */
+export function computeMetricsTrend(
+  notes: DailyNote[],
+  start: Temporal.PlainDate,
+  end: Temporal.PlainDate,
+  metricNames?: string[]
+): MetricsTrend {
+  const days: Temporal.PlainDate[] = [];
+  for (let date = start; Temporal.PlainDate.compare(date, end) <= 0; date = date.add({ days: 1 })) {
+    days.push(date);
+  }
+  const notesByDate = new Map(notes.map(note => [note.date.toString(), note]));
+
+  // Metrics are the 0-10 scores, in the order they first appear; other numbers (years, counts, ...) are left out
+  const wanted = metricNames?.map(name => name.toLowerCase());
+  const numericKeys: string[] = [];
+  const outOfScale = new Set<string>();
+  for (const note of notes) {
+    for (const [key, value] of Object.entries(note.frontmatter)) {
+      const metricValue = toMetricValue(value);
+      if (metricValue === null) continue;
+      if (metricValue < MIN_SCORE || metricValue > MAX_SCORE) outOfScale.add(key);
+      if (!numericKeys.includes(key)) numericKeys.push(key);
+    }
+  }
+  const metrics = wanted
+    ? numericKeys.filter(key => wanted.includes(key.toLowerCase()))
+    : numericKeys.filter(key => !outOfScale.has(key));
+
+  const stats = metrics.map((metric): MetricStats => {
+    const series = days.map(date => ({
+      date: date.toString(),
+      value: toMetricValue(notesByDate.get(date.toString())?.frontmatter[metric])
+    }));
+    const values = series.map(point => point.value).filter((value): value is number => value !== null);
+    const metricStreaks = streaks(series.map(point => point.value !== null));
+    const slope = slopeOf(series.flatMap((point, x) => point.value === null ? [] : [{ x, y: point.value }]));
+    return {
+      metric,
+      series,
+      count: values.length,
+      average: values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null,
+      min: values.length > 0 ? Math.min(...values) : null,
+      max: values.length > 0 ? Math.max(...values) : null,
+      latest: values.length > 0 ? values[values.length - 1] : null,
+      slope: slope === null ? null : round(slope, 3),
+      currentStreak: metricStreaks.current,
+      longestStreak: metricStreaks.longest
+    };
+  });
+
+  const correlations: MetricCorrelation[] = [];
+  for (let i = 0; i < stats.length; i++) {
+    for (let j = i + 1; j < stats.length; j++) {
+      const pairs = stats[i].series.flatMap((point, day): [number, number][] => {
+        const other = stats[j].series[day].value;
+        return point.value === null || other === null ? [] : [[point.value, other]];
+      });
+      if (pairs.length < MIN_CORRELATION_DAYS) continue;
+      const coefficient = pearson(pairs);
+      if (coefficient !== null) {
+        correlations.push({ metrics: [stats[i].metric, stats[j].metric], coefficient: round(coefficient), days: pairs.length });
+      }
+    }
+  }
+  correlations.sort((a, b) => Math.abs(b.coefficient) - Math.abs(a.coefficient));
+
+  const noteStreaks = streaks(days.map(date => notesByDate.has(date.toString())));
+  return {
+    start: start.toString(),
+    end: end.toString(),
+    missingDays: days.filter(date => !notesByDate.has(date.toString())).map(date => date.toString()),
+    currentStreak: noteStreaks.current,
+    longestStreak: noteStreaks.longest,
+    metrics: stats,
+    correlations
+  };
+}
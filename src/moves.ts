@@ -0,0 +1,308 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { serviceDataPath, VaultConfig } from "./config";
+import { fileExists, hashContent, resolveVaultPath, writeFileAtomic } from "./files";
+import { writeNoteWithHistory } from "./history";
+import { isNoteLink, NoteLink, resolveLinkTarget, rewriteLinks } from "./links";
+import { listMarkdownFiles } from "./vault";
+
+export interface LinkChange {
+  /** 1-based line in the file */
+  line: number;
+  before: string;
+  after: string;
+}
+
+/**
+ * A note whose links change with the move, as it will be written.
+ */
+export interface MoveEdit {
+  /** Vault-relative path of the note before the move */
+  notePath: string;
+  /** Hash of the note when the move was planned, to detect edits made in the meantime */
+  baseHash: string;
+  content: string;
+  changes: LinkChange[];
+}
+
+/**
+ * A rename or move of a note with the link updates it needs across the vault,
+ * waiting for the user to review and confirm it.
+ */
+export interface MovePlan {
+  id: string;
+  /** Tool that planned the move */
+  tool: string;
+  from: string;
+  to: string;
+  /** Hash of the moved note when the move was planned */
+  baseHash: string;
+  edits: MoveEdit[];
+  createdAt: string;
+}
+
+export type MoveResult =
+  | { status: "moved"; from: string; to: string; updatedNotes: string[]; staleNotes: string[] }
+  | { status: "changed"; plan: MovePlan };
+
+// Moves that were never confirmed are cleaned up after this long
+const MOVE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function movePath(config: VaultConfig, id: string): string {
+  if (!/^[0-9a-f-]{36}$/.test(id)) {
+    throw new Error(`Invalid move ID "${id}"`);
+  }
+  return serviceDataPath(config, "moves", `${id}.json`);
+}
+
+async function removeExpiredMoves(config: VaultConfig): Promise<void> {
+  const dir = serviceDataPath(config, "moves");
+  const entries = await fs.readdir(dir).catch(() => [] as string[]);
+  for (const entry of entries) {
+    const filePath = path.join(dir, entry);
+    const stat = await fs.stat(filePath).catch(() => undefined);
+    if (stat && Date.now() - stat.mtimeMs > MOVE_TTL_MS) {
+      await fs.rm(filePath, { force: true });
+    }
+  }
+}
+
+/**
+ * Whether two paths are the same file, as for a rename that only changes
+ * case on a case-insensitive file system.
+ */
+async function isSameFile(a: string, b: string): Promise<boolean> {
+  const [statA, statB] = await Promise.all([fs.stat(a).catch(() => undefined), fs.stat(b).catch(() => undefined)]);
+  return !!statA && !!statB && statA.dev === statB.dev && statA.ino === statB.ino;
+}
+
+const withoutExtension = (notePath: string) => notePath.replace(/\.md$/i, "");
+
+/**
+ * Path of a link the way the original was written, with or without ".md".
+ * Markdown links encode spaces unless their path is in angle brackets.
+ */
+function formatLinkPath(linkPath: string, original: string, encodeSpaces: boolean): string {
+  const formatted = /\.md$/i.test(original) ? `${withoutExtension(linkPath)}.md` : withoutExtension(linkPath);
+  return encodeSpaces ? formatted.replace(/ /g, "%20") : formatted;
+}
+
+function decodeLinkPath(linkPath: string): string {
+  try {
+    return decodeURI(linkPath);
+  } catch {
+    return linkPath;
+  }
+}
+
+/**
+ * Plan the link updates in one file for moving `from` to `to`. Links that
+ * pointed at the moved note are pointed at its new path, and the moved note's
+ * own relative markdown links are adjusted to its new folder. Wikilinks keep
+ * the shortest form that still resolves, and every link keeps its heading or
+ * block reference and display text.
+ */
+function planLinkUpdates(
+  content: string,
+  sourcePath: string,
+  move: { from: string; to: string },
+  notesBefore: string[],
+  notesAfter: string[],
+  attachments: Set<string>
+): { content: string; changes: LinkChange[] } {
+  const sourceAfter = sourcePath === move.from ? move.to : sourcePath;
+  const changes: LinkChange[] = [];
+
+  const newLinkPath = (link: NoteLink, hrefPath: string, encodeSpaces: boolean): string | undefined => {
+    if (link.kind === "markdown") {
+      const relative = path.posix.normalize(path.posix.join(path.posix.dirname(sourcePath), decodeLinkPath(hrefPath)));
+      if (!isNoteLink(link)) {
+        // Attachments only move along with the relative links of the moved note
+        if (sourcePath !== move.from || !attachments.has(relative)) return undefined;
+        return formatLinkPath(path.posix.relative(path.posix.dirname(sourceAfter), relative), hrefPath, encodeSpaces);
+      }
+      const resolved = resolveLinkTarget(link.target, sourcePath, notesBefore);
+      if (!resolved || (resolved !== move.from && sourcePath !== move.from)) return undefined;
+      const target = resolved === move.from ? move.to : resolved;
+      const wasRelative = withoutExtension(relative).toLowerCase() === withoutExtension(resolved).toLowerCase();
+      if (!wasRelative && resolved !== move.from) return undefined;
+      return formatLinkPath(wasRelative ? path.posix.relative(path.posix.dirname(sourceAfter), target) : target, hrefPath, encodeSpaces);
+    }
+
+    if (!isNoteLink(link)) return undefined;
+    const resolved = resolveLinkTarget(link.target, sourcePath, notesBefore);
+    if (!resolved) return undefined;
+    const target = resolved === move.from ? move.to : resolved;
+    if (resolveLinkTarget(link.target, sourceAfter, notesAfter) === target) return undefined;
+    // A name that now finds another note, or the old name of the moved note
+    const name = path.posix.basename(target, ".md");
+    const linkPath = !link.target.includes("/") && resolveLinkTarget(name, sourceAfter, notesAfter) === target ? name : target;
+    return formatLinkPath(linkPath, hrefPath, false);
+  };
+
+  const updated = rewriteLinks(content, link => {
+    // "[[#Heading]]" points into the note itself and moves with it
+    if (link.target === "") return undefined;
+    let replacement: string | undefined;
+    if (link.kind === "wikilink") {
+      replacement = link.raw.replace(/^(!?\[\[)([^#^|\]]*)/, (match, open: string, linkPath: string) => {
+        const newPath = newLinkPath(link, linkPath.trim(), false);
+        return newPath === undefined ? match : `${open}${newPath}`;
+      });
+    } else {
+      replacement = link.raw.replace(/^(!?\[[^\]\n]*\]\()(<[^>\n]+>|[^)\s]+)/, (match, open: string, href: string) => {
+        const [hrefPath, ...subpath] = href.replace(/^<|>$/g, "").split("#");
+        const newPath = newLinkPath(link, hrefPath, !href.startsWith("<"));
+        if (newPath === undefined) return match;
+        const newHref = [newPath, ...subpath].join("#");
+        return `${open}${href.startsWith("<") ? `<${newHref}>` : newHref}`;
+      });
+    }
+    if (replacement === link.raw) return undefined;
+    changes.push({ line: link.line, before: link.raw, after: replacement });
+    return replacement;
+  });
+  return { content: updated, changes: changes.sort((a, b) => a.line - b.line) };
+}
+
+/**
+ * Plan moving a note to a new vault-relative path and find every link in the
+ * vault that has to change with it. Nothing is written.
+ */
+export async function planMove(config: VaultConfig, tool: string, from: string, to: string, id: string = randomUUID()): Promise<MovePlan> {
+  const fromPath = resolveVaultPath(config.vaultPath, from);
+  const toPath = resolveVaultPath(config.vaultPath, to);
+  if (!to.toLowerCase().endsWith(".md")) {
+    throw new Error(`"${to}" is not a markdown note path`);
+  }
+  if (from === to) {
+    throw new Error(`"${from}" is already at that path`);
+  }
+  if (!(await fileExists(fromPath))) {
+    throw new Error(`Note "${from}" not found in the vault`);
+  }
+  if (await fileExists(toPath) && !(await isSameFile(fromPath, toPath))) {
+    throw new Error(`"${to}" already exists`);
+  }
+
+  const notesBefore = await listMarkdownFiles(config.vaultPath);
+  const notesAfter = notesBefore.map(notePath => notePath === from ? to : notePath);
+
+  // Attachments the moved note links to relatively, so those links can follow it
+  const fromContent = await fs.readFile(fromPath, "utf8");
+  const attachments = new Set<string>();
+  for (const match of fromContent.matchAll(/\]\((<[^>\n]+>|[^)\s]+)/g)) {
+    const href = decodeLinkPath(match[1].replace(/^<|>$/g, "").split("#")[0]);
+    if (!href || /^[a-z][a-z0-9+.-]*:/i.test(href) || /\.md$/i.test(href)) continue;
+    const attachment = path.posix.normalize(path.posix.join(path.posix.dirname(from), href));
+    if (!attachment.startsWith("../") && await fileExists(path.join(config.vaultPath, attachment))) {
+      attachments.add(attachment);
+    }
+  }
+
+  const edits: MoveEdit[] = [];
+  let baseHash = hashContent(fromContent);
+  for (const notePath of notesBefore) {
+    const content = notePath === from
+      ? fromContent
+      : await fs.readFile(resolveVaultPath(config.vaultPath, notePath), "utf8").catch(() => undefined);
+    if (content === undefined) continue;
+    const updated = planLinkUpdates(content, notePath, { from, to }, notesBefore, notesAfter, attachments);
+    if (updated.changes.length > 0) {
+      edits.push({ notePath, baseHash: hashContent(content), ...updated });
+    }
+  }
+
+  return { id, tool, from, to, baseHash, edits, createdAt: new Date().toISOString() };
+}
+
+/**
+ * Plan a move and stage it for review.
+ */
+export async function stageMove(config: VaultConfig, tool: string, from: string, to: string): Promise<MovePlan> {
+  await removeExpiredMoves(config);
+  const plan = await planMove(config, tool, from, to);
+  await saveMove(config, plan);
+  return plan;
+}
+
+export async function saveMove(config: VaultConfig, plan: MovePlan): Promise<void> {
+  await writeFileAtomic(movePath(config, plan.id), JSON.stringify(plan, null, 2));
+}
+
+export async function getMove(config: VaultConfig, id: string): Promise<MovePlan> {
+  try {
+    return JSON.parse(await fs.readFile(movePath(config, id), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Move "${id}" not found. It may have been confirmed already or expired.`);
+    }
+    throw error;
+  }
+}
+
+export async function discardMove(config: VaultConfig, id: string): Promise<void> {
+  await fs.rm(movePath(config, id), { force: true });
+}
+
+/**
+ * Carry out a reviewed move: create the destination folders, move the note
+ * without overwriting anything and write the link updates, keeping the
+ * replaced versions in the note history. When any affected note was edited
+ * since review, nothing is written and the move is planned again for another review.
+ * Notes whose link update fails once the note has moved are reported as stale.
+ */
+export async function commitMove(config: VaultConfig, plan: MovePlan): Promise<MoveResult> {
+  const fromPath = resolveVaultPath(config.vaultPath, plan.from);
+  const toPath = resolveVaultPath(config.vaultPath, plan.to);
+
+  const currentHash = async (notePath: string) => {
+    const content = await fs.readFile(resolveVaultPath(config.vaultPath, notePath), "utf8").catch(() => undefined);
+    return content === undefined ? undefined : hashContent(content);
+  };
+  const fromHash = await currentHash(plan.from);
+  if (fromHash === undefined) {
+    throw new Error(`"${plan.from}" was deleted or moved since it was reviewed`);
+  }
+  let changed = fromHash !== plan.baseHash;
+  for (const edit of plan.edits) {
+    if (changed) break;
+    changed = (await currentHash(edit.notePath)) !== edit.baseHash;
+  }
+  if (changed) {
+    const replanned = await planMove(config, plan.tool, plan.from, plan.to, plan.id);
+    await saveMove(config, replanned);
+    return { status: "changed", plan: replanned };
+  }
+
+  await fs.mkdir(path.dirname(toPath), { recursive: true });
+  if (await isSameFile(fromPath, toPath)) {
+    await fs.rename(fromPath, toPath);
+  } else {
+    // Unlike rename, link refuses to replace a note created at the destination meanwhile
+    try {
+      await fs.link(fromPath, toPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") throw new Error(`"${plan.to}" already exists`);
+      throw error;
+    }
+    await fs.rm(fromPath);
+  }
+
+  // The note has moved, so one failed link update must not stop the others
+  const updatedNotes: string[] = [];
+  const staleNotes: string[] = [];
+  for (const edit of plan.edits) {
+    const notePath = edit.notePath === plan.from ? plan.to : edit.notePath;
+    try {
+      await writeNoteWithHistory(config, notePath, plan.tool, edit.content);
+      updatedNotes.push(notePath);
+    } catch (error) {
+      console.error(`Failed to update the links in ${notePath}:`, error);
+      staleNotes.push(notePath);
+    }
+  }
+  await discardMove(config, plan.id);
+  return { status: "moved", from: plan.from, to: plan.to, updatedNotes, staleNotes };
+}
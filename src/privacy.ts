@@ -0,0 +1,172 @@
+import fs from "fs/promises";
+import path from "path";
+import { Temporal } from "@js-temporal/polyfill";
+import { serviceDataPath, userTimeZone, VaultConfig } from "./config";
+import { hashContent } from "./files";
+import { extractTags, normalizeTag } from "./vault";
+
+/**
+ * One request that sent vault content or user input to a model provider.
+ */
+export interface AuditRecord {
+  time: string;
+  kind: "chat" | "embedding";
+  /** Model task the request was made for, e.g. "cleanup" */
+  task: string;
+  /** Service tool the request was made for, or "background" for the watcher and startup indexing */
+  tool: string;
+  /** Name of the request: the structured output tool the model was asked to call, or the embedding step */
+  request: string;
+  provider: string;
+  model: string;
+  /** Vault-relative paths of the notes whose content was sent */
+  notes: string[];
+  /** Size of the text sent, in bytes */
+  bytes: number;
+  /** SHA-256 of the text sent, to check later whether a given text went out */
+  hash: string;
+  /** Matches of the redaction patterns replaced before sending */
+  redactions: number;
+}
+
+export interface AuditQuery {
+  since?: Temporal.PlainDate;
+  tool?: string;
+  request?: string;
+  /** Only requests that included this vault-relative note path */
+  note?: string;
+  limit?: number;
+  /** Time zone `since` is a day in, the user's by default */
+  timeZone?: string;
+}
+
+// "%% private %%" up to "%% /private %%", or the end of the text when it isn't closed
+const PRIVATE_BLOCK = /%%[ \t]*private[ \t]*%%[\s\S]*?(?:%%[ \t]*\/private[ \t]*%%|$)/gi;
+const EMAIL = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}.-]+\.\p{L}{2,}/gu;
+// International or local numbers, e.g. "+31 6 1234 5678" or "(555) 123-4567"
+const PHONE_NUMBER = /(?<![\p{L}\p{N}])\+?\(?\d[\d \t().-]{5,}\d(?![\p{L}\p{N}])/gu;
+// ...but not dates such as 2025-01-31 or 31.01.2025, and only with at least 7 digits
+const DATE_LIKE = /^(?:\d{4}[./-]\d{1,2}[./-]\d{1,2}|\d{1,2}[./-]\d{1,2}[./-]\d{2,4})$/;
+const isPhoneNumber = (match: string) => !DATE_LIKE.test(match) && (match.match(/\d/g)?.length ?? 0) >= 7;
+
+const AUDIT_LOG = "audit.jsonl";
+
+/**
+ * Whether a note must never be embedded or sent to a model: its privacy flag
+ * property is true, or it is in an excluded folder or has an excluded tag.
+ */
+export function isPrivateNote(config: VaultConfig, notePath: string, frontmatter: Record<string, unknown>, body: string): boolean {
+  const { flag, excludeFolders, excludeTags } = config.privacy;
+  if (excludeFolders.some(folder => notePath.startsWith(`${folder}/`))) return true;
+
+  const value = frontmatter[flag];
+  if (value === true || (typeof value === "string" && value.toLowerCase() === "true")) return true;
+
+  if (excludeTags.length === 0) return false;
+  const tags = extractTags(body, frontmatter);
+  return excludeTags.map(normalizeTag).some(excluded =>
+    tags.some(tag => tag === excluded || tag.startsWith(`${excluded}/`)));
+}
+
+/**
+ * Blank out `%% private %%` … `%% /private %%` blocks. Their line breaks are
+ * kept so line numbers in the rest of the text stay the same.
+ */
+export function removePrivateBlocks(text: string): string {
+  return text.replace(PRIVATE_BLOCK, block => block.replace(/[^\n]/g, ""));
+}
+
+/**
+ * The `%% private %%` blocks in a text, markers included.
+ */
+export function findPrivateBlocks(text: string): string[] {
+  return text.match(PRIVATE_BLOCK) ?? [];
+}
+
+/**
+ * Replace emails, phone numbers and the configured patterns, as far as they
+ * are enabled, with placeholders.
+ */
+export function redactText(config: VaultConfig, text: string): { text: string; redactions: number } {
+  const { emails, phoneNumbers, patterns } = config.privacy.redact;
+  let redactions = 0;
+  const replace = (value: string, pattern: RegExp, placeholder: string, accept: (match: string) => boolean = () => true) =>
+    value.replace(pattern, match => {
+      if (!accept(match)) return match;
+      redactions++;
+      return placeholder;
+    });
+
+  let redacted = text;
+  for (const pattern of patterns) {
+    redacted = replace(redacted, new RegExp(pattern, "gu"), "[redacted]");
+  }
+  if (emails) redacted = replace(redacted, EMAIL, "[email]");
+  if (phoneNumbers) redacted = replace(redacted, PHONE_NUMBER, "[phone]", isPhoneNumber);
+  return { text: redacted, redactions };
+}
+
+/**
+ * Prepare text for a model provider: private blocks removed and configured patterns redacted.
+ */
+export function prepareOutboundText(config: VaultConfig, text: string): { text: string; redactions: number } {
+  return redactText(config, removePrivateBlocks(text));
+}
+
+/**
+ * Append a request to the audit log in the service data folder. A failure to
+ * write the log is reported but doesn't stop the request.
+ */
+export async function recordOutbound(config: VaultConfig, record: Omit<AuditRecord, "time" | "hash" | "bytes">, text: string): Promise<void> {
+  if (!config.privacy.audit) return;
+  const entry: AuditRecord = {
+    time: new Date().toISOString(),
+    ...record,
+    bytes: Buffer.byteLength(text, "utf8"),
+    hash: hashContent(text)
+  };
+  try {
+    const logPath = serviceDataPath(config, AUDIT_LOG);
+    await fs.mkdir(path.dirname(logPath), { recursive: true });
+    await fs.appendFile(logPath, `${JSON.stringify(entry)}\n`, "utf8");
+  } catch (error) {
+    console.error("Failed to write the audit log:", error);
+  }
+}
+
+/**
+ * Read the audit log, newest requests first.
+ */
+export async function readAuditLog(config: VaultConfig, query: AuditQuery = {}): Promise<AuditRecord[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(serviceDataPath(config, AUDIT_LOG), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const timeZone = userTimeZone(config, query.timeZone);
+  const records: AuditRecord[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    let record: AuditRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      // A line cut off by a crash while writing
+      continue;
+    }
+    // Older records only have the request name, in the tool field
+    if (record.request === undefined) {
+      record = { ...record, tool: "unknown", request: record.tool };
+    }
+    if (query.since && Temporal.PlainDate.compare(
+      Temporal.Instant.from(record.time).toZonedDateTimeISO(timeZone).toPlainDate(), query.since) < 0) continue;
+    if (query.tool && record.tool !== query.tool) continue;
+    if (query.request && record.request !== query.request) continue;
+    if (query.note && !record.notes.includes(query.note)) continue;
+    records.push(record);
+  }
+  return records.reverse().slice(0, query.limit ?? records.length);
+}
@@ -0,0 +1,410 @@
+import { z } from "zod";
+import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
+import { BaseChatModel, SimpleChatModel } from "@langchain/core/language_models/chat_models";
+import type { BaseLanguageModelInput, StructuredOutputMethodOptions } from "@langchain/core/language_models/base";
+import { Embeddings } from "@langchain/core/embeddings";
+import { isAIMessage, type BaseMessage } from "@langchain/core/messages";
+import { type Runnable, RunnableLambda } from "@langchain/core/runnables";
+import { createHash } from "crypto";
+import { getConfig } from "./config";
+import { prepareOutboundText, recordOutbound } from "./privacy";
+import { cacheKey, checkBudget, currentTool, estimateCost, estimateTokens, readCache, recordUsage, writeCache } from "./usage";
+
+/**
+ * The jobs we use models for. Each one gets its own model settings so that,
+ * for example, cleanup can run on a small local model while daily reflection
+ * uses a stronger hosted one.
+ */
+export type ModelTask = "cleanup" | "dailyReflection" | "answer" | "embeddings";
+
+const providerSchema = z.enum(["openai", "openai-compatible", "fake"]);
+
+export type Provider = z.infer<typeof providerSchema>;
+
+const taskSettingsSchema = z.object({
+  provider: providerSchema,
+  model: z.string().min(1),
+  baseUrl: z.string().url().optional(),
+  apiKey: z.string().optional(),
+  temperature: z.coerce.number().min(0).max(2).optional(),
+  timeoutMs: z.coerce.number().int().positive(),
+  maxRetries: z.coerce.number().int().min(0),
+  retryDelayMs: z.coerce.number().int().min(0)
+});
+
+export type ModelSettings = z.infer<typeof taskSettingsSchema>;
+
+const TASK_DEFAULTS: Record<ModelTask, { model: string; temperature?: number }> = {
+  cleanup: { model: "gpt-3.5-turbo" },
+  dailyReflection: { model: "gpt-4o", temperature: 0 },
+  answer: { model: "gpt-4o", temperature: 0 },
+  embeddings: { model: "text-embedding-3-large" }
+};
+
+// Environment variable prefix per task, e.g. LLM_DAILY_REFLECTION_MODEL
+const TASK_ENV_PREFIX: Record<ModelTask, string> = {
+  cleanup: "LLM_CLEANUP",
+  dailyReflection: "LLM_DAILY_REFLECTION",
+  answer: "LLM_ANSWER",
+  embeddings: "EMBEDDING"
+};
+
+const settingsCache = new Map<ModelTask, ModelSettings>();
+
+/**
+ * Resolve the model settings for a task from the environment.
+ *
+ * Every setting can be given per task (`LLM_CLEANUP_MODEL`, `EMBEDDING_BASE_URL`, ...)
+ * and falls back to the shared `LLM_*` value and then to the built-in default.
+ * Set `LLM_PROVIDER=fake` to run without any network access.
+ */
+export function getModelSettings(task: ModelTask): ModelSettings {
+  const cached = settingsCache.get(task);
+  if (cached) return cached;
+
+  const env = process.env;
+  const prefix = TASK_ENV_PREFIX[task];
+  const setting = (name: string) => env[`${prefix}_${name}`] || env[`LLM_${name}`] || undefined;
+
+  const provider = setting("PROVIDER") ?? "openai";
+  const result = taskSettingsSchema.safeParse({
+    provider,
+    model: env[`${prefix}_MODEL`] || TASK_DEFAULTS[task].model,
+    baseUrl: setting("BASE_URL"),
+    // Local servers such as Ollama accept any key, but the OpenAI client insists on one
+    apiKey: setting("API_KEY") ?? (provider === "openai" ? env.OPENAI_API_KEY : "not-needed"),
+    temperature: env[`${prefix}_TEMPERATURE`] ?? TASK_DEFAULTS[task].temperature,
+    timeoutMs: setting("TIMEOUT_MS") ?? 120_000,
+    maxRetries: setting("MAX_RETRIES") ?? 3,
+    retryDelayMs: setting("RETRY_DELAY_MS") ?? 1_000
+  });
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ");
+    throw new Error(`Invalid ${task} model settings: ${issues}`);
+  }
+  if (result.data.provider === "openai-compatible" && !result.data.baseUrl) {
+    throw new Error(`${prefix}_BASE_URL (or LLM_BASE_URL) is required for the openai-compatible provider`);
+  }
+
+  settingsCache.set(task, result.data);
+  return result.data;
+}
+
+/**
+ * Run an async call, retrying failures with exponential backoff and jitter.
+ */
+export async function withRetry<T>(settings: ModelSettings, call: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      // Client errors such as a bad API key or an invalid request won't go away on retry
+      const failure = error as { status?: number; response?: { status?: number }; message?: string } | undefined;
+      const status = failure?.status ?? failure?.response?.status;
+      const retryable = status === undefined || status === 408 || status === 429 || status >= 500;
+      if (attempt >= settings.maxRetries || !retryable) {
+        throw error;
+      }
+      const delay = settings.retryDelayMs * 2 ** attempt * (0.5 + Math.random() / 2);
+      console.warn(`Model call failed (attempt ${attempt + 1}/${settings.maxRetries + 1}), retrying in ${Math.round(delay)}ms:`, failure?.message ?? error);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Build a value matching a zod schema without a model: defaults are used
+ * where the schema has them, strings are filled with `text` (cut to the
+ * schema's maximum length), and everything else gets its simplest valid value.
+ */
+function fakeValueForSchema(schema: z.ZodTypeAny, text: string): unknown {
+  if (schema instanceof z.ZodDefault) return schema._def.defaultValue();
+  if (schema instanceof z.ZodOptional) return undefined;
+  if (schema instanceof z.ZodNullable) return null;
+  if (schema instanceof z.ZodEffects) return fakeValueForSchema(schema.innerType(), text);
+  if (schema instanceof z.ZodObject) {
+    return Object.fromEntries(Object.entries(schema.shape as z.ZodRawShape)
+      .map(([key, field]) => [key, fakeValueForSchema(field, text)]));
+  }
+  if (schema instanceof z.ZodString) {
+    const maxLength = schema.maxLength ?? Infinity;
+    return (text || "fake").slice(0, maxLength);
+  }
+  if (schema instanceof z.ZodNumber) return schema.minValue ?? 0;
+  if (schema instanceof z.ZodBoolean) return false;
+  if (schema instanceof z.ZodEnum) return schema.options[0];
+  if (schema instanceof z.ZodLiteral) return schema.value;
+  if (schema instanceof z.ZodArray) return [];
+  if (schema instanceof z.ZodRecord) return {};
+  return null;
+}
+
+/**
+ * Deterministic stand-in for a chat model, used for development and tests.
+ * It answers with `FAKE_LLM_RESPONSE` when set, otherwise it echoes the last
+ * message back inside a markdown block so the rest of the pipeline still works.
+ * Structured output is built from the schema, filled with the last message.
+ */
+export class FakeChatModel extends SimpleChatModel {
+  _llmType(): string {
+    return "fake";
+  }
+
+  async _call(messages: BaseMessage[]): Promise<string> {
+    if (process.env.FAKE_LLM_RESPONSE) {
+      return process.env.FAKE_LLM_RESPONSE;
+    }
+    const last = messages[messages.length - 1];
+    return "```markdown\n" + (last ? last.content.toString().trim() : "") + "\n```";
+  }
+
+  withStructuredOutput<RunOutput extends Record<string, unknown>>(
+    schema: z.ZodType<RunOutput>,
+    config?: StructuredOutputMethodOptions<false>
+  ): Runnable<BaseLanguageModelInput, RunOutput>;
+  withStructuredOutput<RunOutput extends Record<string, unknown>>(
+    schema: z.ZodType<RunOutput>,
+    config: StructuredOutputMethodOptions<true>
+  ): Runnable<BaseLanguageModelInput, { raw: BaseMessage; parsed: RunOutput }>;
+  withStructuredOutput(schema: z.ZodTypeAny, config?: StructuredOutputMethodOptions<boolean>): Runnable<BaseLanguageModelInput, unknown> {
+    return RunnableLambda.from(async (input: BaseLanguageModelInput) => {
+      let parsed: unknown;
+      if (process.env.FAKE_LLM_RESPONSE) {
+        parsed = schema.parse(JSON.parse(process.env.FAKE_LLM_RESPONSE));
+      } else {
+        const messages = FakeChatModel._convertInputToPromptValue(input).toChatMessages();
+        const last = messages[messages.length - 1];
+        parsed = fakeValueForSchema(schema, last ? last.content.toString().trim() : "");
+      }
+      // Like the real models with includeRaw, minus the raw message and its token usage
+      return config?.includeRaw ? { raw: undefined, parsed } : parsed;
+    });
+  }
+}
+
+/**
+ * Deterministic offline embeddings based on hashed word counts.
+ * Texts that share words end up close together, which is enough to exercise
+ * related-note search without an embedding service.
+ */
+export class FakeEmbeddings extends Embeddings {
+  constructor(private dimensions: number = 256) {
+    super({});
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const token of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+      const digest = createHash("md5").update(token).digest();
+      const bucket = digest.readUInt32BE(0) % this.dimensions;
+      vector[bucket] += digest[4] & 1 ? 1 : -1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm ? vector.map(value => value / norm) : vector;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map(document => this.embed(document));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+}
+
+/**
+ * Wraps an embeddings client so every request goes through {@link withRetry}.
+ */
+class RetryingEmbeddings extends Embeddings {
+  constructor(private inner: Embeddings, private settings: ModelSettings) {
+    super({});
+  }
+
+  embedDocuments(documents: string[]): Promise<number[][]> {
+    return withRetry(this.settings, () => this.inner.embedDocuments(documents));
+  }
+
+  embedQuery(document: string): Promise<number[]> {
+    return withRetry(this.settings, () => this.inner.embedQuery(document));
+  }
+}
+
+/**
+ * Wraps an embeddings client with the model cache and usage accounting: texts
+ * embedded before by the same model are answered from the cache, the rest are
+ * sent after checking the daily budgets and recorded in the usage log.
+ */
+class MeteredEmbeddings extends Embeddings {
+  constructor(private inner: Embeddings, private settings: ModelSettings) {
+    super({});
+  }
+
+  private async embed(texts: string[], request: string, call: (texts: string[]) => Promise<number[][]>): Promise<number[][]> {
+    const config = await getConfig();
+    const tool = currentTool();
+    const keys = texts.map(text => cacheKey({ model: getEmbeddingModelId(), text }));
+    const vectors = config.usage.cache
+      ? await Promise.all(keys.map(key => readCache<number[]>(config, "embeddings", key)))
+      : texts.map(() => undefined);
+    const missing = texts.map((_, i) => i).filter(i => !vectors[i]);
+    const usage = { kind: "embedding" as const, task: "embeddings", tool, request, provider: this.settings.provider, model: this.settings.model, outputTokens: 0 };
+
+    if (missing.length < texts.length) {
+      await recordUsage(config, { ...usage, inputTokens: 0, cost: 0, cached: true });
+    }
+    if (missing.length > 0) {
+      await checkBudget(config, tool);
+      const embedded = await call(missing.map(i => texts[i]));
+      const inputTokens = missing.reduce((sum, i) => sum + estimateTokens(texts[i]), 0);
+      await recordUsage(config, { ...usage, inputTokens, cost: estimateCost(config, usage.provider, usage.model, inputTokens, 0), cached: false });
+      for (const [j, i] of missing.entries()) {
+        vectors[i] = embedded[j];
+        if (config.usage.cache) await writeCache(config, "embeddings", keys[i], embedded[j]);
+      }
+    }
+    return vectors as number[][];
+  }
+
+  embedDocuments(documents: string[]): Promise<number[][]> {
+    return this.embed(documents, "embed_notes", texts => this.inner.embedDocuments(texts));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    const [vector] = await this.embed([document], "embed_query", async ([text]) => [await this.inner.embedQuery(text)]);
+    return vector;
+  }
+}
+
+/**
+ * Create the chat model configured for a task.
+ * Retries are left to {@link withRetry} so that backoff is under our control.
+ */
+export function getChatModel(task: Exclude<ModelTask, "embeddings">): BaseChatModel {
+  const settings = getModelSettings(task);
+  if (settings.provider === "fake") {
+    return new FakeChatModel({});
+  }
+  return new ChatOpenAI({
+    model: settings.model,
+    temperature: settings.temperature,
+    apiKey: settings.apiKey,
+    timeout: settings.timeoutMs,
+    maxRetries: 0,
+    configuration: settings.baseUrl ? { baseURL: settings.baseUrl } : undefined
+  });
+}
+
+/**
+ * Run a prompt on a task's chat model and return its answer as data validated
+ * against a zod schema. Answers that don't match the schema are retried like
+ * any other failed call. Private blocks and the configured patterns are
+ * removed from the messages first, and the request is recorded in the audit
+ * log along with the vault notes (`notes`) whose content it contains.
+ *
+ * The same request made before is answered from the model cache. Other
+ * requests are refused once a daily budget is used up, and their tokens and
+ * estimated cost are recorded in the usage log.
+ */
+export async function invokeStructured<T extends z.AnyZodObject>(
+  task: Exclude<ModelTask, "embeddings">,
+  schema: T,
+  messages: BaseMessage[],
+  name: string,
+  notes: string[] = []
+): Promise<z.infer<T>> {
+  const config = await getConfig();
+  let redactions = 0;
+  for (const message of messages) {
+    if (typeof message.content !== "string") continue;
+    // The messages are formatted for this one call, so they can be changed in place
+    const prepared = prepareOutboundText(config, message.content);
+    message.content = prepared.text;
+    redactions += prepared.redactions;
+  }
+
+  const settings = getModelSettings(task);
+  const tool = currentTool();
+  const usage = { kind: "chat" as const, task, tool, request: name, provider: settings.provider, model: settings.model };
+  // The fake model's answers depend on FAKE_LLM_RESPONSE, so they aren't cached
+  const useCache = config.usage.cache && settings.provider !== "fake";
+  const key = cacheKey({
+    provider: settings.provider,
+    baseUrl: settings.baseUrl,
+    model: settings.model,
+    temperature: settings.temperature,
+    name,
+    messages: messages.map(message => [message.getType(), message.content])
+  });
+  if (useCache) {
+    const cached = schema.safeParse(await readCache(config, "chat", key));
+    if (cached.success) {
+      await recordUsage(config, { ...usage, inputTokens: 0, outputTokens: 0, cost: 0, cached: true });
+      return cached.data;
+    }
+  }
+
+  await checkBudget(config, tool);
+  await recordOutbound(config, {
+    kind: "chat",
+    task,
+    tool,
+    request: name,
+    provider: settings.provider,
+    model: settings.model,
+    notes,
+    redactions
+  }, messages.map(message => message.content.toString()).join("\n\n"));
+
+  const llm = getChatModel(task).withStructuredOutput(schema, { name, includeRaw: true });
+  const parsed = await withRetry(settings, async () => {
+    const { raw, parsed } = await llm.invoke(messages);
+    // Every answer is paid for, also one that is retried because it didn't match the schema.
+    // Providers that don't report token usage get an estimate.
+    const usageMetadata = raw && isAIMessage(raw) ? raw.usage_metadata : undefined;
+    const inputTokens = usageMetadata?.input_tokens ?? estimateTokens(messages.map(message => message.content.toString()).join("\n\n"));
+    const outputTokens = usageMetadata?.output_tokens ?? estimateTokens(JSON.stringify(parsed ?? ""));
+    await recordUsage(config, {
+      ...usage,
+      inputTokens,
+      outputTokens,
+      cost: estimateCost(config, settings.provider, settings.model, inputTokens, outputTokens),
+      cached: false
+    });
+    if (parsed == null) {
+      throw new Error(`The ${task} model's answer didn't match the ${name} schema`);
+    }
+    return parsed;
+  });
+
+  if (useCache) await writeCache(config, "chat", key, parsed);
+  return parsed;
+}
+
+/**
+ * Create the embeddings client used for the vault index.
+ */
+export function getEmbeddings(): Embeddings {
+  const settings = getModelSettings("embeddings");
+  if (settings.provider === "fake") {
+    return new FakeEmbeddings();
+  }
+  const embeddings = new OpenAIEmbeddings({
+    model: settings.model,
+    apiKey: settings.apiKey,
+    timeout: settings.timeoutMs,
+    maxRetries: 0,
+    configuration: settings.baseUrl ? { baseURL: settings.baseUrl } : undefined
+  });
+  return new MeteredEmbeddings(new RetryingEmbeddings(embeddings, settings), settings);
+}
+
+/**
+ * Identifies the embedding space in use. Vectors produced under a different
+ * identifier are not comparable and have to be rebuilt.
+ */
+export function getEmbeddingModelId(): string {
+  const settings = getModelSettings("embeddings");
+  return settings.provider === "fake"
+    ? "fake:hashed-words"
+    : `${settings.provider}:${settings.baseUrl ?? "default"}:${settings.model}`;
+}
@@ -0,0 +1,116 @@
+import path from "path";
+import { VaultConfig } from "./config";
+import { findSimilarNoteChunks, getVectorStore } from "./embeddings";
+import { searchSimilarText } from "./search";
+import { getDailyNoteDate } from "./utils";
+
+export type RelatedMatch = "semantic" | "keyword";
+
+/**
+ * A note suggested as related, with the passage that made it so.
+ */
+export interface RelatedNote {
+  title: string;
+  path: string;
+  /** Link target of the best matching section, e.g. "Note#Heading" */
+  link: string;
+  /** Heading path of that section, empty before the first heading */
+  heading: string;
+  /** The matching passage; for notes only found by keywords, a snippet with the shared terms in bold */
+  passage: string;
+  /** 1 when the note ranked first in both rankings, at most 0.5 when only one of them found it */
+  score: number;
+  matchedBy: RelatedMatch[];
+}
+
+export interface RelatedNotesOptions {
+  /** Vault-relative path of the note the suggestions are for, which is never suggested itself */
+  notePath?: string;
+  /** Title of that note, for notes that don't have a path yet */
+  title?: string;
+  limit?: number;
+}
+
+// Candidates taken from each ranking before they are fused
+const CANDIDATES = 20;
+// Reciprocal rank fusion constant. Lower than the usual 60 because the lists are
+// short, so a note's rank within them still makes a difference to its score.
+const RRF_K = 10;
+const PASSAGE_LENGTH = 200;
+
+interface Candidate {
+  title: string;
+  path: string;
+  link: string;
+  heading: string;
+  passage: string;
+  ranks: Partial<Record<RelatedMatch, number>>;
+}
+
+function shortPassage(text: string): string {
+  const passage = text.replace(/\s+/g, " ").trim();
+  return passage.length > PASSAGE_LENGTH ? `${passage.slice(0, PASSAGE_LENGTH).trimEnd()}…` : passage;
+}
+
+/**
+ * Find notes related to a piece of text. Notes are ranked by embedding
+ * similarity of their best matching section and by keyword (BM25) overlap,
+ * and the two rankings are combined with reciprocal rank fusion. Notes below
+ * `related.minScore` are dropped, as are the note itself, notes in
+ * `related.excludeFolders` and, when the text is a daily note, the other daily notes.
+ */
+export async function findRelatedNotes(config: VaultConfig, content: string, options: RelatedNotesOptions = {}): Promise<RelatedNote[]> {
+  const isDailyNote = options.notePath !== undefined && getDailyNoteDate(config, options.notePath) !== undefined;
+  const isExcluded = (notePath: string, title: string) =>
+    notePath === options.notePath
+    || title === options.title
+    || config.related.excludeFolders.some(folder => notePath.startsWith(`${folder}/`))
+    || (isDailyNote && getDailyNoteDate(config, notePath) !== undefined);
+
+  // The embedding index is updated incrementally, so only notes edited since the last call get re-embedded
+  const vectorStore = await getVectorStore(config);
+  const semantic = (await findSimilarNoteChunks(vectorStore, content, CANDIDATES + 5))
+    .map(([doc]) => ({
+      title: doc.metadata.title ?? path.posix.basename(doc.metadata.fileName ?? "", ".md"),
+      path: doc.metadata.path ?? doc.metadata.fileName,
+      link: doc.metadata.link ?? doc.metadata.title,
+      heading: doc.metadata.heading ?? "",
+      passage: shortPassage(doc.pageContent)
+    }))
+    .filter(note => !isExcluded(note.path, note.title))
+    .slice(0, CANDIDATES);
+  const keyword = (await searchSimilarText(config, content, CANDIDATES + 5))
+    .map(result => ({ title: result.title, path: result.path, link: result.link, heading: result.heading, passage: result.snippet }))
+    .filter(note => !isExcluded(note.path, note.title))
+    .slice(0, CANDIDATES);
+
+  // A note found semantically keeps the passage from its best section
+  const candidates = new Map<string, Candidate>();
+  semantic.forEach((note, i) => candidates.set(note.path, { ...note, ranks: { semantic: i + 1 } }));
+  keyword.forEach((note, i) => {
+    const existing = candidates.get(note.path);
+    if (existing) existing.ranks.keyword = i + 1;
+    else candidates.set(note.path, { ...note, ranks: { keyword: i + 1 } });
+  });
+
+  const bestScore = 2 / (RRF_K + 1);
+  return [...candidates.values()]
+    .map(({ ranks, ...note }) => ({
+      ...note,
+      score: Math.round(1000 * Object.values(ranks).reduce((sum, rank) => sum + 1 / (RRF_K + rank!), 0) / bestScore) / 1000,
+      matchedBy: (Object.keys(ranks) as RelatedMatch[])
+    }))
+    .filter(note => note.score >= config.related.minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? config.related.limit);
+}
+
+/**
+ * List related notes with their score and passage, for a tool response.
+ */
+export function describeRelatedNotes(notes: RelatedNote[]): string {
+  if (notes.length === 0) return "";
+  return `Related notes:\n${notes
+    .map(note => `- [[${note.link}]] (${note.score.toFixed(2)}, ${note.matchedBy.join(" + ")}): ${note.passage}`)
+    .join("\n")}`;
+}
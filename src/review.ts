@@ -0,0 +1,221 @@
+import path from "path";
+import { z } from "zod";
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+import { Temporal } from "@js-temporal/polyfill";
+import { VaultConfig } from "./config";
+import { formatDate } from "./dates";
+import { invokeStructured } from "./providers";
+import { computeMetricsTrend, MetricsTrend } from "./metrics";
+import { isPrivateNote } from "./privacy";
+import { DailyNote } from "./utils";
+
+export type ReviewPeriod = "week" | "month" | "custom";
+
+export interface ReviewRange {
+  period: ReviewPeriod;
+  start: Temporal.PlainDate;
+  end: Temporal.PlainDate;
+  /** Title of the review note, e.g. "2025-W03" or "2025-01" */
+  title: string;
+}
+
+const reviewItemSchema = z.object({
+  text: z.string().describe("One sentence"),
+  dates: z.array(z.string()).describe("YYYY-MM-DD dates of the days it comes from")
+});
+
+const reviewSchema = z.object({
+  overview: z.string().describe("A short paragraph summarizing the period"),
+  wins: z.array(reviewItemSchema).describe("Wins and memorable moments"),
+  lessons: z.array(reviewItemSchema).describe("Lessons learned"),
+  improvements: z.array(reviewItemSchema).describe("Improvements, recurring ones first")
+});
+
+export type ReviewSummary = z.infer<typeof reviewSchema>;
+
+/**
+ * Text for a prompt and the daily notes it comes from.
+ */
+interface PromptPart {
+  text: string;
+  notes: string[];
+}
+
+const REVIEW_INSTRUCTIONS = `
+You are a reflection expert and my personal wise advisor. The next message contains {source} from my journal for {period}.
+Summarize them into:
+- overview: a short paragraph on how the period went, in second person
+- wins: my wins and key memorable moments
+- lessons: what I learned
+- improvements: the things I want to get better at. Merge improvements that come up on several days into one item and list those recurring ones first.
+Every item must list the dates (YYYY-MM-DD) of the days it comes from. Only use what is in the notes.
+`;
+
+// Days are summarized in batches when their notes together are longer than this
+const MAX_PROMPT_CHARS = 24000;
+// Most levels of summaries of summaries before a review is given up on
+const MAX_SUMMARY_LEVELS = 10;
+// A single day never takes more than this, so one long note can't crowd out the rest
+const MAX_DAY_CHARS = 6000;
+
+/**
+ * Work out the dates and title of the period containing `date`. Weeks are ISO
+ * weeks starting on Monday; custom ranges need an explicit end.
+ */
+export function getReviewRange(config: VaultConfig, period: ReviewPeriod, date: Temporal.PlainDate, end?: Temporal.PlainDate): ReviewRange {
+  switch (period) {
+    case "week": {
+      const start = date.subtract({ days: date.dayOfWeek - 1 });
+      return { period, start, end: start.add({ days: 6 }), title: formatDate(start, config.periodicNotes.weeklyFormat) };
+    }
+    case "month": {
+      const start = date.with({ day: 1 });
+      return { period, start, end: start.add({ months: 1 }).subtract({ days: 1 }), title: formatDate(start, config.periodicNotes.monthlyFormat) };
+    }
+    case "custom":
+      if (!end || Temporal.PlainDate.compare(date, end) > 0) {
+        throw new Error("A custom review needs an end date on or after the start date");
+      }
+      return { period, start: date, end, title: `Review ${date} to ${end}` };
+  }
+}
+
+function dayTitle(note: DailyNote): string {
+  return path.posix.basename(note.notePath, ".md");
+}
+
+function formatDay(note: DailyNote): string {
+  const summary = typeof note.frontmatter.Summary === "string" ? `Summary: ${note.frontmatter.Summary}\n` : "";
+  return `### ${note.date}\n${summary}${note.body.trim().slice(0, MAX_DAY_CHARS)}`;
+}
+
+function formatSummary(summary: ReviewSummary, label: string): string {
+  const items = (items: ReviewSummary["wins"]) => items.map(item => `- ${item.text} (${item.dates.join(", ")})`).join("\n");
+  return `### ${label}\n${summary.overview}\nWins:\n${items(summary.wins)}\nLessons:\n${items(summary.lessons)}\nImprovements:\n${items(summary.improvements)}`;
+}
+
+/**
+ * Group texts into batches that each fit in one prompt.
+ */
+function batch(parts: PromptPart[]): PromptPart[][] {
+  const batches: PromptPart[][] = [];
+  let current: PromptPart[] = [];
+  let length = 0;
+  for (const part of parts) {
+    if (current.length > 0 && length + part.text.length > MAX_PROMPT_CHARS) {
+      batches.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(part);
+    length += part.text.length;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+async function summarize(parts: PromptPart[], source: string, period: string): Promise<ReviewSummary> {
+  const prompt = ChatPromptTemplate.fromMessages([
+    ["system", REVIEW_INSTRUCTIONS],
+    ["human", "{content}"]
+  ]);
+  const messages = await prompt.formatMessages({ source, period, content: parts.map(part => part.text).join("\n\n") });
+  return invokeStructured("dailyReflection", reviewSchema, messages, "periodic_review", parts.flatMap(part => part.notes));
+}
+
+/**
+ * Summarize the daily notes of a period. When they don't fit in one prompt,
+ * batches of days are summarized first and those summaries are then combined,
+ * up to MAX_SUMMARY_LEVELS deep. Every level has fewer parts than the one before.
+ */
+export async function summarizeDailyNotes(notes: DailyNote[], range: ReviewRange): Promise<ReviewSummary> {
+  if (notes.length === 0) {
+    throw new Error(`No daily notes to summarize from ${range.start} to ${range.end}`);
+  }
+  const period = `${range.start} to ${range.end}`;
+  let parts: PromptPart[] = notes.map(note => ({ text: formatDay(note), notes: [note.notePath] }));
+  let source = "my daily notes";
+
+  for (let level = 0; ; level++) {
+    let batches = batch(parts);
+    if (batches.length > 1 && batches.length >= parts.length) {
+      // Parts too long to share a prompt would never get fewer, so they are combined two at a time
+      batches = [];
+      for (let i = 0; i < parts.length; i += 2) batches.push(parts.slice(i, i + 2));
+    }
+    if (batches.length === 1) {
+      return summarize(batches[0], source, period);
+    }
+    if (level >= MAX_SUMMARY_LEVELS) {
+      throw new Error(`The daily notes from ${range.start} to ${range.end} are too long to summarize in ${MAX_SUMMARY_LEVELS} levels`);
+    }
+    const summaries: ReviewSummary[] = [];
+    for (const days of batches) {
+      summaries.push(await summarize(days, source, period));
+    }
+    parts = summaries.map((summary, i) => ({
+      text: formatSummary(summary, `Part ${i + 1}`),
+      notes: batches[i].flatMap(part => part.notes)
+    }));
+    source = "summaries of consecutive parts";
+  }
+}
+
+/**
+ * Render the review note: the model's summary with links back to each day,
+ * plus metric averages computed from the daily notes themselves.
+ */
+export function renderReviewNote(range: ReviewRange, notes: DailyNote[], summary: ReviewSummary, trend: MetricsTrend): string {
+  const titles = new Map(notes.map(note => [note.date.toString(), dayTitle(note)]));
+  const links = (dates: string[]) => dates
+    .filter(date => titles.has(date))
+    .map(date => `[[${titles.get(date)}]]`)
+    .join(", ");
+  const items = (items: ReviewSummary["wins"]) => items.length > 0
+    ? items.map(item => `- ${item.text}${links(item.dates) ? ` (${links(item.dates)})` : ""}`).join("\n")
+    : "- None";
+
+  const heading = range.period === "week" ? "Weekly Review" : range.period === "month" ? "Monthly Review" : "Review";
+  const parts = [
+    `# ${heading} ${range.title}`,
+    summary.overview.trim(),
+    "## Metrics",
+    trend.metrics.length > 0
+      ? [
+        "| Metric | Average | Min | Max | Days |",
+        "| --- | --- | --- | --- | --- |",
+        ...trend.metrics.map(stats => `| ${stats.metric} | ${stats.average ?? "–"} | ${stats.min ?? "–"} | ${stats.max ?? "–"} | ${stats.count} |`)
+      ].join("\n")
+      : "No metrics recorded.",
+    "## Wins",
+    items(summary.wins),
+    "## Lessons",
+    items(summary.lessons),
+    "## Recurring Improvements",
+    items(summary.improvements),
+    "## Days",
+    notes.map(note => `- [[${dayTitle(note)}]]${typeof note.frontmatter.Summary === "string" ? ` ${note.frontmatter.Summary}` : ""}`).join("\n")
+  ];
+  return `${parts.join("\n\n")}\n`;
+}
+
+/**
+ * Build the review for a period from its daily notes. Private daily notes are
+ * left out of the summary, but their metrics still count.
+ */
+export async function generateReview(
+  config: VaultConfig,
+  range: ReviewRange,
+  notes: DailyNote[]
+): Promise<{ summary: ReviewSummary; trend: MetricsTrend; content: string }> {
+  if (notes.length === 0) {
+    throw new Error(`No daily notes found from ${range.start} to ${range.end}`);
+  }
+  const shared = notes.filter(note => !isPrivateNote(config, note.notePath, note.frontmatter, note.body));
+  if (shared.length === 0) {
+    throw new Error(`All daily notes from ${range.start} to ${range.end} are private`);
+  }
+  const summary = await summarizeDailyNotes(shared, range);
+  const trend = computeMetricsTrend(notes, range.start, range.end);
+  return { summary, trend, content: renderReviewNote(range, notes, summary, trend) };
+}
@@ -0,0 +1,519 @@
+import { Temporal } from "@js-temporal/polyfill";
+import fs from "fs/promises";
+import path from "path";
+import { isVaultWatched, listIndexedNotes, readVaultNote, VaultNote } from "./vault";
+import { isIndexedPath, userTimeZone, VaultConfig } from "./config";
+import { sectionLink } from "./chunking";
+import { isPrivateNote, removePrivateBlocks } from "./privacy";
+import { parseOutline } from "./sections";
+
+export interface SearchResult {
+  title: string;
+  path: string;
+  score: number;
+  snippet: string;
+  /** Heading path of the section the snippet comes from, e.g. "Projects > Dain", empty before the first heading */
+  heading: string;
+  /** Link target of that section, e.g. "Note#Dain" */
+  link: string;
+  tags: string[];
+  modified: string;
+}
+
+type Comparison = ">" | ">=" | "<" | "<=" | "=";
+
+interface QueryTerm {
+  value: string;
+  prefix: boolean;
+  negated: boolean;
+}
+
+interface QueryPhrase {
+  tokens: string[];
+  negated: boolean;
+}
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  phrases: QueryPhrase[];
+  tags: { value: string; negated: boolean }[];
+  paths: { value: string; negated: boolean }[];
+  modified: { comparison: Comparison; date: Temporal.PlainDate }[];
+}
+
+interface IndexedNote {
+  note: VaultNote;
+  /** Private notes are kept in the index for links but never returned as results */
+  private: boolean;
+  /** Body with private blocks blanked out, which is what is searched and quoted */
+  body: string;
+  /** Field-weighted term frequencies */
+  termFrequencies: Map<string, number>;
+  /** Field-weighted document length */
+  length: number;
+  /** Token sequences used to check phrase queries */
+  sequences: string[][];
+}
+
+interface SearchIndex {
+  notes: Map<string, IndexedNote>;
+  postings: Map<string, Set<string>>;
+  totalLength: number;
+}
+
+// Matches in the title or tags say more about a note than a passing mention in the body
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2.5,
+  headings: 2,
+  path: 1.5,
+  frontmatter: 1.5,
+  body: 1
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const SNIPPET_LENGTH = 200;
+// Text compared with the vault is reduced to this many of its most distinctive terms
+const MAX_SIMILAR_TEXT_TERMS = 30;
+
+const indexes = new Map<string, SearchIndex>();
+
+/**
+ * Lowercase a piece of text and split it into word tokens.
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function frontmatterText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(frontmatterText).join(" ");
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === "object") {
+    return Object.entries(value).map(([key, item]) => `${key} ${frontmatterText(item)}`).join(" ");
+  }
+  return String(value);
+}
+
+function indexNote(config: VaultConfig, note: VaultNote): IndexedNote {
+  const body = removePrivateBlocks(note.body);
+  const fields: Record<keyof typeof FIELD_WEIGHTS, string[]> = {
+    title: tokenize(note.title),
+    tags: note.tags.flatMap(tokenize),
+    headings: note.headings.flatMap(tokenize),
+    path: tokenize(note.folder),
+    frontmatter: tokenize(frontmatterText(note.frontmatter)),
+    body: tokenize(body)
+  };
+
+  const termFrequencies = new Map<string, number>();
+  let length = 0;
+  for (const [field, tokens] of Object.entries(fields)) {
+    const weight = FIELD_WEIGHTS[field as keyof typeof FIELD_WEIGHTS];
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + weight);
+    }
+    length += tokens.length * weight;
+  }
+
+  return {
+    note,
+    private: isPrivateNote(config, note.path, note.frontmatter, note.body),
+    body,
+    termFrequencies,
+    length,
+    sequences: [fields.title, fields.frontmatter, fields.body]
+  };
+}
+
+function addToIndex(index: SearchIndex, indexed: IndexedNote) {
+  index.notes.set(indexed.note.path, indexed);
+  index.totalLength += indexed.length;
+  for (const term of indexed.termFrequencies.keys()) {
+    let paths = index.postings.get(term);
+    if (!paths) {
+      paths = new Set();
+      index.postings.set(term, paths);
+    }
+    paths.add(indexed.note.path);
+  }
+}
+
+function removeFromIndex(index: SearchIndex, notePath: string) {
+  const indexed = index.notes.get(notePath);
+  if (!indexed) return;
+  index.notes.delete(notePath);
+  index.totalLength -= indexed.length;
+  for (const term of indexed.termFrequencies.keys()) {
+    const paths = index.postings.get(term);
+    paths?.delete(notePath);
+    if (paths?.size === 0) {
+      index.postings.delete(term);
+    }
+  }
+}
+
+/**
+ * Bring the in-memory search index for a vault up to date.
+ * Only notes whose modification time changed are re-read; deleted notes are dropped.
+ * While the vault is watched, the watcher keeps a built index current instead.
+ */
+export async function refreshSearchIndex(config: VaultConfig): Promise<SearchIndex> {
+  const { vaultPath } = config;
+  let index = indexes.get(vaultPath);
+  if (index && isVaultWatched(vaultPath)) {
+    return index;
+  }
+  if (!index) {
+    index = { notes: new Map(), postings: new Map(), totalLength: 0 };
+    indexes.set(vaultPath, index);
+  }
+
+  const notePaths = await listIndexedNotes(config);
+  const seen = new Set(notePaths);
+
+  for (const notePath of notePaths) {
+    const existing = index.notes.get(notePath);
+    try {
+      if (existing) {
+        const stat = await fs.stat(path.join(vaultPath, notePath));
+        if (stat.mtimeMs === existing.note.mtimeMs) continue;
+        removeFromIndex(index, notePath);
+      }
+      addToIndex(index, indexNote(config, await readVaultNote(vaultPath, notePath)));
+    } catch (error) {
+      // The file may have been removed between listing and reading it
+      console.error(`Failed to index ${notePath}:`, error);
+      removeFromIndex(index, notePath);
+    }
+  }
+
+  for (const notePath of [...index.notes.keys()]) {
+    if (!seen.has(notePath)) {
+      removeFromIndex(index, notePath);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Re-read notes that were created, changed or deleted. Does nothing until the
+ * index has been built by a first search.
+ */
+export async function updateSearchIndex(config: VaultConfig, notePaths: string[]): Promise<void> {
+  const index = indexes.get(config.vaultPath);
+  if (!index) return;
+
+  for (const notePath of notePaths) {
+    removeFromIndex(index, notePath);
+    if (!isIndexedPath(config, notePath)) continue;
+    try {
+      addToIndex(index, indexNote(config, await readVaultNote(config.vaultPath, notePath)));
+    } catch (error) {
+      // Deleted notes just stay out of the index
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  }
+}
+
+/**
+ * List every tag used in the vault with the number of notes using it, most used first.
+ */
+export async function listVaultTags(config: VaultConfig): Promise<{ tag: string; count: number }[]> {
+  const index = await refreshSearchIndex(config);
+  const counts = new Map<string, number>();
+  for (const { note } of index.notes.values()) {
+    for (const tag of note.tags) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+/**
+ * Parse a search query into terms, phrases and filters.
+ *
+ * Supported syntax:
+ * - `word` and `-word` to require or exclude a term, `wor*` for prefix matches
+ * - `"exact phrase"` and `-"exact phrase"`
+ * - `tag:project`, `path:"My Thoughts"`, `modified:>2025-01-01` (also `>=`, `<`, `<=`, `=`)
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], phrases: [], tags: [], paths: [], modified: [] };
+  const pattern = /(-?)(?:(tag|path|modified):)?("[^"]*"?|\S+)/gi;
+
+  for (const match of query.matchAll(pattern)) {
+    const negated = match[1] === "-";
+    const operator = match[2]?.toLowerCase();
+    const raw = match[3];
+
+    if (operator === "tag") {
+      parsed.tags.push({ value: unquote(raw).replace(/^#/, "").toLowerCase(), negated });
+    } else if (operator === "path") {
+      parsed.paths.push({ value: unquote(raw).toLowerCase(), negated });
+    } else if (operator === "modified") {
+      const dateMatch = raw.match(/^(>=|<=|>|<|=)?(\d{4}-\d{2}-\d{2})$/);
+      if (!dateMatch) {
+        throw new Error(`Invalid modified filter "${raw}", expected e.g. modified:>2025-01-01`);
+      }
+      parsed.modified.push({
+        comparison: (dateMatch[1] || "=") as Comparison,
+        date: Temporal.PlainDate.from(dateMatch[2])
+      });
+    } else if (raw.startsWith('"')) {
+      const tokens = tokenize(unquote(raw));
+      if (tokens.length === 1) {
+        parsed.terms.push({ value: tokens[0], prefix: false, negated });
+      } else if (tokens.length > 1) {
+        parsed.phrases.push({ tokens, negated });
+      }
+    } else {
+      const prefix = raw.endsWith("*");
+      const tokens = tokenize(raw);
+      // Punctuated input such as "e-mail" becomes several required terms
+      tokens.forEach((value, i) => {
+        parsed.terms.push({ value, prefix: prefix && i === tokens.length - 1, negated });
+      });
+    }
+  }
+
+  return parsed;
+}
+
+function compareDates(comparison: Comparison, left: Temporal.PlainDate, right: Temporal.PlainDate): boolean {
+  const result = Temporal.PlainDate.compare(left, right);
+  switch (comparison) {
+    case ">": return result > 0;
+    case ">=": return result >= 0;
+    case "<": return result < 0;
+    case "<=": return result <= 0;
+    case "=": return result === 0;
+  }
+}
+
+function modifiedDate(note: VaultNote, timeZone: string): Temporal.PlainDate {
+  return Temporal.Instant.fromEpochMilliseconds(Math.round(note.mtimeMs))
+    .toZonedDateTimeISO(timeZone)
+    .toPlainDate();
+}
+
+function matchesFilters(note: VaultNote, query: ParsedQuery, timeZone: string): boolean {
+  for (const tag of query.tags) {
+    const hasTag = note.tags.some(noteTag => noteTag === tag.value || noteTag.startsWith(`${tag.value}/`));
+    if (hasTag === tag.negated) return false;
+  }
+  for (const filter of query.paths) {
+    const inPath = note.path.toLowerCase().includes(filter.value);
+    if (inPath === filter.negated) return false;
+  }
+  if (query.modified.length > 0) {
+    const modified = modifiedDate(note, timeZone);
+    if (!query.modified.every(filter => compareDates(filter.comparison, modified, filter.date))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function containsPhrase(sequences: string[][], tokens: string[]): boolean {
+  return sequences.some(sequence => {
+    for (let i = 0; i + tokens.length <= sequence.length; i++) {
+      if (tokens.every((token, j) => sequence[i + j] === token)) return true;
+    }
+    return false;
+  });
+}
+
+function expandTerm(index: SearchIndex, term: QueryTerm): string[] {
+  if (!term.prefix) {
+    return index.postings.has(term.value) ? [term.value] : [];
+  }
+  return [...index.postings.keys()].filter(key => key.startsWith(term.value));
+}
+
+function inverseDocumentFrequency(index: SearchIndex, term: string): number {
+  const documentFrequency = index.postings.get(term)?.size ?? 0;
+  return Math.log(1 + (index.notes.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+}
+
+function bm25(index: SearchIndex, indexed: IndexedNote, term: string): number {
+  const frequency = indexed.termFrequencies.get(term);
+  if (!frequency) return 0;
+  const averageLength = index.totalLength / index.notes.size || 1;
+  const idf = inverseDocumentFrequency(index, term);
+  return idf * (frequency * (BM25_K1 + 1)) /
+    (frequency + BM25_K1 * (1 - BM25_B + BM25_B * indexed.length / averageLength));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Build a short excerpt of the note around the first matched term, with every
+ * matched term wrapped in `**bold**`.
+ */
+export function buildSnippet(body: string, highlightTerms: Set<string>): string {
+  const text = body.replace(/\s+/g, " ").trim();
+  if (highlightTerms.size === 0 || !text) {
+    return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH).trimEnd()}…` : text;
+  }
+
+  let firstMatch = -1;
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    if (highlightTerms.has(match[0].toLowerCase())) {
+      firstMatch = match.index ?? 0;
+      break;
+    }
+  }
+
+  let start = Math.max(0, firstMatch - SNIPPET_LENGTH / 3);
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  // Avoid cutting words in half at either edge of the excerpt
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    start = space === -1 || space > Math.max(firstMatch, 0) ? start : space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    end = space > start ? space : end;
+  }
+
+  const alternatives = [...highlightTerms].sort((a, b) => b.length - a.length).map(escapeRegExp).join("|");
+  const highlighted = text
+    .slice(start, end)
+    .replace(new RegExp(`(?<![\\p{L}\\p{N}])(${alternatives})(?![\\p{L}\\p{N}])`, "giu"), "**$1**");
+
+  return `${start > 0 ? "…" : ""}${highlighted}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * Heading path of the section containing the first matched term, which is
+ * where the snippet is taken from. Empty when nothing matched or the match
+ * comes before the first heading.
+ */
+export function matchedSection(body: string, highlightTerms: Set<string>): string[] {
+  if (highlightTerms.size === 0) return [];
+  const { lines, sections } = parseOutline(body);
+  const line = lines.findIndex(text =>
+    [...text.matchAll(/[\p{L}\p{N}]+/gu)].some(match => highlightTerms.has(match[0].toLowerCase())));
+  if (line === -1) return [];
+  // Sections are in document order, so the last one around the line is the innermost
+  return sections.filter(section => section.line <= line && line < section.end).pop()?.path ?? [];
+}
+
+/**
+ * Run a full-text query against the vault and return the best ranked notes.
+ * Private notes and the text of private blocks are never matched.
+ * Queries made up only of filters return matching notes ordered by modification time.
+ * Modification dates are days in `timeZone`.
+ */
+export async function searchNotes(config: VaultConfig, query: string, limit: number = 10, timeZone: string = userTimeZone(config)): Promise<SearchResult[]> {
+  const parsed = parseQuery(query);
+  const index = await refreshSearchIndex(config);
+
+  const positiveTerms = parsed.terms.filter(term => !term.negated);
+  const negativeTerms = parsed.terms.filter(term => term.negated);
+  const positivePhrases = parsed.phrases.filter(phrase => !phrase.negated);
+  const negativePhrases = parsed.phrases.filter(phrase => phrase.negated);
+
+  const expansions = positiveTerms.map(term => expandTerm(index, term));
+  const excluded = negativeTerms.flatMap(term => expandTerm(index, term));
+  const highlightTerms = new Set([...expansions.flat(), ...positivePhrases.flatMap(phrase => phrase.tokens)]);
+
+  const scored: { indexed: IndexedNote; score: number }[] = [];
+  for (const indexed of index.notes.values()) {
+    if (indexed.private || !matchesFilters(indexed.note, parsed, timeZone)) continue;
+    if (excluded.some(term => indexed.termFrequencies.has(term))) continue;
+    if (negativePhrases.some(phrase => containsPhrase(indexed.sequences, phrase.tokens))) continue;
+
+    let score = 0;
+    let matchesAll = true;
+    for (const terms of expansions) {
+      // Every term must match; for prefixes the best matching expansion counts
+      const termScore = Math.max(0, ...terms.map(term => bm25(index, indexed, term)));
+      if (termScore === 0) {
+        matchesAll = false;
+        break;
+      }
+      score += termScore;
+    }
+    if (!matchesAll) continue;
+
+    for (const phrase of positivePhrases) {
+      if (!containsPhrase(indexed.sequences, phrase.tokens)) {
+        matchesAll = false;
+        break;
+      }
+      // Phrases are stronger evidence than the same words scattered through the note
+      score += 1.5 * phrase.tokens.reduce((sum, token) => sum + bm25(index, indexed, token), 0);
+    }
+    if (!matchesAll) continue;
+
+    scored.push({ indexed, score });
+  }
+
+  const hasTextQuery = positiveTerms.length > 0 || positivePhrases.length > 0;
+  scored.sort((a, b) => hasTextQuery
+    ? b.score - a.score
+    : b.indexed.note.mtimeMs - a.indexed.note.mtimeMs);
+
+  return scored.slice(0, limit).map(({ indexed, score }) => toSearchResult(indexed, score, highlightTerms, timeZone));
+}
+
+function toSearchResult(indexed: IndexedNote, score: number, highlightTerms: Set<string>, timeZone: string): SearchResult {
+  const headingPath = matchedSection(indexed.body, highlightTerms);
+  return {
+    title: indexed.note.title,
+    path: indexed.note.path,
+    score: Math.round(score * 1000) / 1000,
+    snippet: buildSnippet(indexed.body, highlightTerms),
+    heading: headingPath.join(" > "),
+    link: sectionLink(indexed.note.title, headingPath),
+    tags: indexed.note.tags,
+    modified: modifiedDate(indexed.note, timeZone).toString()
+  };
+}
+
+/**
+ * Rank notes by how much they share with a piece of text, e.g. a note being
+ * written. The text's most distinctive terms by TF-IDF are used as one query
+ * in which any term may match.
+ */
+export async function searchSimilarText(config: VaultConfig, text: string, limit: number = 20): Promise<SearchResult[]> {
+  const index = await refreshSearchIndex(config);
+
+  const counts = new Map<string, number>();
+  for (const token of tokenize(text)) {
+    if (token.length < 3 || !index.postings.has(token)) continue;
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  const terms = [...counts]
+    .map(([term, count]) => ({ term, weight: count * inverseDocumentFrequency(index, term) }))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_SIMILAR_TEXT_TERMS)
+    .map(({ term }) => term);
+
+  const scores = new Map<string, number>();
+  for (const term of terms) {
+    for (const notePath of index.postings.get(term)!) {
+      const indexed = index.notes.get(notePath)!;
+      if (indexed.private) continue;
+      scores.set(notePath, (scores.get(notePath) ?? 0) + bm25(index, indexed, term));
+    }
+  }
+
+  const highlightTerms = new Set(terms);
+  return [...scores]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([notePath, score]) => toSearchResult(index.notes.get(notePath)!, score, highlightTerms, userTimeZone(config)));
+}
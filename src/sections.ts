@@ -0,0 +1,285 @@
+import { lineBreak, splitLines } from "./diff";
+import { parseFrontmatter, updateFrontmatter } from "./vault";
+
+/**
+ * A heading and the lines belonging to it.
+ */
+export interface Section {
+  heading: string;
+  level: number;
+  /** Headings from the top level down to this one, e.g. ["Projects", "Dain"] */
+  path: string[];
+  /** Line index of the heading itself */
+  line: number;
+  /** End (exclusive) of the section's own content, i.e. its first subheading */
+  contentEnd: number;
+  /** End (exclusive) of the section including its subsections */
+  end: number;
+}
+
+export interface NoteOutline {
+  lines: string[];
+  /** Line break the note uses, so edited notes are joined with it again */
+  lineBreak: string;
+  frontmatter: Record<string, unknown>;
+  /** Index of the first line after the frontmatter */
+  bodyStart: number;
+  sections: Section[];
+}
+
+export type InsertFormat = "text" | "list" | "task";
+
+/**
+ * Changes to a note's properties and to the own content of some of its sections.
+ */
+export interface NoteEdits {
+  frontmatter: Record<string, string | number | null>;
+  /**
+   * New content by heading path, e.g. "Reflection > Improvements".
+   * Sections that don't exist yet are added at the end of the note.
+   */
+  sections: { path: string; content: string }[];
+  /** Properties that only accept scores from 0 to 10 (or no value) */
+  numericKeys?: string[];
+}
+
+/**
+ * Parse a note into lines, frontmatter and its heading tree.
+ * Headings inside the frontmatter and code blocks are ignored.
+ */
+export function parseOutline(content: string): NoteOutline {
+  const lines = splitLines(content);
+  const { frontmatter, body } = parseFrontmatter(content.replace(/\r\n/g, "\n"));
+  const bodyStart = lines.length - splitLines(body).length;
+
+  const sections: Section[] = [];
+  const stack: Section[] = [];
+  let fence: string | undefined;
+
+  for (let i = bodyStart; i < lines.length; i++) {
+    const fenceMatch = lines[i].match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = undefined;
+      continue;
+    }
+    const match = !fence && lines[i].match(/^(#{1,6})[ \t]+(.+?)[ \t#]*$/);
+    if (!match) continue;
+
+    const level = match[1].length;
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      const closed = stack.pop()!;
+      closed.end = i;
+      closed.contentEnd = Math.min(closed.contentEnd, i);
+    }
+    const parent = stack[stack.length - 1];
+    const heading = match[2].trim();
+    const section: Section = {
+      heading,
+      level,
+      path: [...(parent?.path ?? []), heading],
+      line: i,
+      contentEnd: lines.length,
+      end: lines.length
+    };
+    // A heading ends the own content of every open section above it
+    for (const open of stack) {
+      open.contentEnd = Math.min(open.contentEnd, i);
+    }
+    sections.push(section);
+    stack.push(section);
+  }
+
+  return { lines, lineBreak: lineBreak(content), frontmatter, bodyStart, sections };
+}
+
+/**
+ * Find a section by heading name or by path such as "Projects > Dain".
+ * Path segments have to appear in order among the heading's ancestors, but
+ * levels in between may be left out. Matching ignores case and "#" marks.
+ */
+export function findSection(outline: NoteOutline, target: string): Section {
+  const matches = matchSections(outline, target);
+  if (matches.length === 0) {
+    const available = outline.sections.map(section => section.path.join(" > ")).join(", ");
+    throw new Error(`Heading "${target}" not found. Available headings: ${available || "none"}`);
+  }
+  if (matches.length > 1) {
+    const options = matches.map(section => section.path.join(" > ")).join(", ");
+    throw new Error(`Heading "${target}" is ambiguous, use a path such as: ${options}`);
+  }
+  return matches[0];
+}
+
+function matchSections(outline: NoteOutline, target: string): Section[] {
+  const normalize = (text: string) => text.replace(/^#+\s*/, "").trim().toLowerCase();
+  const segments = target.split(">").map(normalize).filter(Boolean);
+  if (segments.length === 0) {
+    throw new Error("No heading given");
+  }
+
+  return outline.sections.filter(section => {
+    const path = section.path.map(normalize);
+    if (path[path.length - 1] !== segments[segments.length - 1]) return false;
+    let position = 0;
+    for (const segment of segments.slice(0, -1)) {
+      const found = path.indexOf(segment, position);
+      if (found === -1 || found >= path.length - 1) return false;
+      position = found + 1;
+    }
+    return true;
+  });
+}
+
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const TASK_ITEM = /^\s*[-*+]\s+\[.\]\s+/;
+
+/**
+ * Turn text into the lines to insert. Lists and tasks get one item per
+ * non-empty line; lines that already are list items or tasks are kept as they are.
+ */
+export function formatInsertion(text: string, format: InsertFormat): string[] {
+  const lines = splitLines(text.replace(/^\n+|\s+$/g, ""));
+  if (format === "text") return lines;
+  return lines
+    .filter(line => line.trim())
+    .map(line => {
+      if (format === "task") {
+        if (TASK_ITEM.test(line)) return line;
+        return `- [ ] ${line.replace(LIST_ITEM, "").trim()}`;
+      }
+      return LIST_ITEM.test(line) ? line : `- ${line.trim()}`;
+    });
+}
+
+function isListLine(line: string | undefined): boolean {
+  return line !== undefined && LIST_ITEM.test(line);
+}
+
+/**
+ * Insert lines at `index`, adding blank lines where needed so paragraphs don't
+ * run into their neighbours. List items join an adjacent list directly.
+ */
+function insertLines(lines: string[], index: number, inserted: string[], format: InsertFormat): string[] {
+  const before = lines[index - 1];
+  const after = lines[index];
+  const needsBlankLine = (neighbour: string | undefined) =>
+    neighbour !== undefined && neighbour.trim() !== "" && !(format !== "text" && isListLine(neighbour));
+
+  const block = [...inserted];
+  // Content may follow its heading directly
+  if (needsBlankLine(before) && !/^#{1,6}[ \t]/.test(before)) block.unshift("");
+  if (needsBlankLine(after)) block.push("");
+  return [...lines.slice(0, index), ...block, ...lines.slice(index)];
+}
+
+/**
+ * Insert text directly below a heading, before the section's existing content.
+ */
+export function insertUnderHeading(content: string, target: string, text: string, format: InsertFormat = "text"): string {
+  const outline = parseOutline(content);
+  const section = findSection(outline, target);
+  const lines = insertLines(outline.lines, section.line + 1, formatInsertion(text, format), format);
+  return lines.join(outline.lineBreak);
+}
+
+/**
+ * Append text to the end of a section's own content, i.e. after its last line
+ * but before any subheading, skipping trailing blank lines.
+ */
+export function appendToSection(content: string, target: string, text: string, format: InsertFormat = "text"): string {
+  const outline = parseOutline(content);
+  const section = findSection(outline, target);
+  let index = section.contentEnd;
+  while (index > section.line + 1 && outline.lines[index - 1].trim() === "") index--;
+  const lines = insertLines(outline.lines, index, formatInsertion(text, format), format);
+  return lines.join(outline.lineBreak);
+}
+
+/**
+ * The text of a section, including its heading and subsections.
+ */
+export function getSectionText(outline: NoteOutline, section: Section): string {
+  return outline.lines.slice(section.line, section.end).join("\n").trimEnd();
+}
+
+/**
+ * The own content of a section, between its heading and its first subheading.
+ */
+export function getSectionContent(outline: NoteOutline, section: Section): string {
+  return outline.lines.slice(section.line + 1, section.contentEnd).join("\n").trim();
+}
+
+/**
+ * Replace the own content of a section, keeping its heading and subsections.
+ */
+export function replaceSectionContent(content: string, target: string, text: string): string {
+  const outline = parseOutline(content);
+  return replaceContentOf(outline, findSection(outline, target), text);
+}
+
+function replaceContentOf(outline: NoteOutline, section: Section, text: string): string {
+  const original = outline.lines.slice(section.line + 1, section.contentEnd);
+  const replacement = splitLines(text.trim());
+  if (replacement.length === 0) {
+    return [...outline.lines.slice(0, section.line + 1), ...outline.lines.slice(section.contentEnd)].join(outline.lineBreak);
+  }
+
+  // Keep the blank lines the section had around its content, with at least one before the next heading
+  const blank = (line: string) => line.trim() === "";
+  const firstText = original.findIndex(line => !blank(line));
+  const leading = firstText === -1 ? 0 : firstText;
+  let trailing = 0;
+  while (trailing < original.length - leading && blank(original[original.length - 1 - trailing])) trailing++;
+  const blankAfter = section.contentEnd < outline.lines.length ? Math.max(trailing, 1) : trailing;
+  return [
+    ...outline.lines.slice(0, section.line + 1),
+    ...new Array<string>(leading).fill(""),
+    ...replacement,
+    ...new Array<string>(blankAfter).fill(""),
+    ...outline.lines.slice(section.contentEnd)
+  ].join(outline.lineBreak);
+}
+
+/**
+ * The section an edit is for: the first one with exactly that heading path,
+ * else the first one findSection would match, as long as every match has the
+ * same path. Undefined when there is none, so the section gets added; a path
+ * matching different sections is an error.
+ */
+export function resolveEditedSection(outline: NoteOutline, path: string): Section | undefined {
+  const exact = outline.sections.find(section => section.path.join(" > ") === path);
+  if (exact) return exact;
+  const matches = matchSections(outline, path);
+  if (new Set(matches.map(section => section.path.join(" > ").toLowerCase())).size > 1) {
+    const options = matches.map(section => section.path.join(" > ")).join(", ");
+    throw new Error(`Heading "${path}" is ambiguous, use a path such as: ${options}`);
+  }
+  return matches[0];
+}
+
+/**
+ * Apply property and section edits to a note. Everything that isn't edited is
+ * kept exactly as it was. Numeric properties only accept scores from 0 to 10.
+ */
+export function applyNoteEdits(content: string, edits: NoteEdits): string {
+  for (const key of edits.numericKeys ?? []) {
+    const value = edits.frontmatter[key];
+    if (value !== undefined && value !== null && (typeof value !== "number" || !(value >= 0 && value <= 10))) {
+      throw new Error(`"${key}" must be a number from 0 to 10, got "${value}"`);
+    }
+  }
+  let updated = Object.keys(edits.frontmatter).length > 0 ? updateFrontmatter(content, edits.frontmatter) : content;
+  for (const { path, content: text } of edits.sections) {
+    const outline = parseOutline(updated);
+    const section = resolveEditedSection(outline, path);
+    if (section) {
+      updated = replaceContentOf(outline, section, text);
+    } else {
+      const heading = path.split(">").pop()!.trim();
+      const eol = lineBreak(updated);
+      updated = [updated.trimEnd(), "", `## ${heading}`, splitLines(text.trim()).join(eol), ""].join(eol);
+    }
+  }
+  return updated;
+}
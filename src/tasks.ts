@@ -0,0 +1,399 @@
+import fs from "fs/promises";
+import path from "path";
+import { Temporal } from "@js-temporal/polyfill";
+import { VaultConfig } from "./config";
+import { lineBreak } from "./diff";
+import { isPrivateNote, removePrivateBlocks } from "./privacy";
+import { appendToSection, getSectionContent, NoteEdits, parseOutline, resolveEditedSection } from "./sections";
+import { extractTags, isVaultWatched, listMarkdownFiles, parseFrontmatter } from "./vault";
+
+export type TaskStatus = "todo" | "in-progress" | "done" | "cancelled";
+
+export type TaskPriority = "highest" | "high" | "medium" | "low" | "lowest";
+
+/**
+ * A Markdown checkbox item (`- [ ] ...`) found in a note.
+ */
+export interface Task {
+  /** Vault-relative path of the note */
+  notePath: string;
+  /** 1-based line of the task in the file, frontmatter included */
+  line: number;
+  /** Character between the brackets, e.g. " ", "x" or "/" */
+  symbol: string;
+  status: TaskStatus;
+  /** Task text without the checkbox, dates, priority and recurrence */
+  description: string;
+  tags: string[];
+  priority?: TaskPriority;
+  /** YYYY-MM-DD dates written in the Tasks plugin emoji format */
+  due?: string;
+  scheduled?: string;
+  start?: string;
+  created?: string;
+  done?: string;
+  cancelled?: string;
+  /** Recurrence rule, e.g. "every week" */
+  recurrence?: string;
+  /** Path of the heading the task is under, e.g. "Plan > Tasks" */
+  heading?: string;
+  /** Nesting depth, 0 for top level tasks */
+  depth: number;
+}
+
+export interface TaskFilter {
+  /** "open" means to do or in progress */
+  status?: TaskStatus | "open" | "all";
+  /** Inclusive YYYY-MM-DD bounds of the due date; tasks without one are left out */
+  dueBefore?: string;
+  dueAfter?: string;
+  tag?: string;
+  /** Vault-relative path of the note */
+  notePath?: string;
+}
+
+const TASK_LINE = /^([ \t]*)([-*+]|\d+[.)])[ \t]+\[(.)\][ \t]+(.*)$/;
+
+// Signifiers of the Tasks plugin, see https://publish.obsidian.md/tasks/Reference/Task+Formats/Tasks+Emoji+Format
+const DATE_FIELDS = { "📅": "due", "⏳": "scheduled", "🛫": "start", "➕": "created", "✅": "done", "❌": "cancelled" } as const;
+const PRIORITIES: Record<string, TaskPriority> = { "🔺": "highest", "⏫": "high", "🔼": "medium", "🔽": "low", "⏬": "lowest" };
+const PRIORITY_ORDER: TaskPriority[] = ["highest", "high", "medium", "low", "lowest"];
+
+const DATE_FIELD = new RegExp(`(${Object.keys(DATE_FIELDS).join("|")})\\uFE0F?\\s*(\\d{4}-\\d{2}-\\d{2})`, "gu");
+const PRIORITY = new RegExp(`(${Object.keys(PRIORITIES).join("|")})\\uFE0F?`, "gu");
+const RECURRENCE = new RegExp(`🔁\\uFE0F?\\s*([^${Object.keys(DATE_FIELDS).join("")}${Object.keys(PRIORITIES).join("")}]*)`, "u");
+
+const parsedTasks = new Map<string, { mtimeMs: number; tasks: Task[] }>();
+// Vaults whose notes have all been parsed at least once
+const scannedVaults = new Set<string>();
+
+function statusOf(symbol: string): TaskStatus {
+  switch (symbol) {
+    case "x": case "X": return "done";
+    case "/": return "in-progress";
+    case "-": return "cancelled";
+    // Like the Tasks plugin, unknown symbols count as to do
+    default: return "todo";
+  }
+}
+
+/**
+ * Whether a task still needs doing.
+ */
+export function isOpenTask(task: Task): boolean {
+  return task.status === "todo" || task.status === "in-progress";
+}
+
+/**
+ * Split the text after a checkbox into its description and Tasks plugin fields.
+ */
+function parseTaskText(text: string): Omit<Task, "notePath" | "line" | "symbol" | "status" | "heading" | "depth"> {
+  const fields: Partial<Record<typeof DATE_FIELDS[keyof typeof DATE_FIELDS], string>> = {};
+  let description = text.replace(DATE_FIELD, (_, emoji: keyof typeof DATE_FIELDS, date: string) => {
+    fields[DATE_FIELDS[emoji]] = date;
+    return "";
+  });
+
+  let priority: TaskPriority | undefined;
+  description = description.replace(PRIORITY, (_, emoji: string) => {
+    priority ??= PRIORITIES[emoji];
+    return "";
+  });
+
+  const recurrence = description.match(RECURRENCE);
+  if (recurrence) {
+    description = description.replace(recurrence[0], "");
+  }
+
+  description = description.replace(/\s+/g, " ").trim();
+  return {
+    description,
+    tags: extractTags(description),
+    priority,
+    ...fields,
+    recurrence: recurrence?.[1].trim() || undefined
+  };
+}
+
+/**
+ * Find the tasks in a note. Tasks in the frontmatter and in code blocks are ignored.
+ */
+export function parseTasks(content: string, notePath: string): Task[] {
+  const outline = parseOutline(content);
+  const tasks: Task[] = [];
+  const indents: number[] = [];
+  let fence: string | undefined;
+
+  for (let i = outline.bodyStart; i < outline.lines.length; i++) {
+    const line = outline.lines[i];
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = undefined;
+      continue;
+    }
+    const match = !fence && line.match(TASK_LINE);
+    if (!match) continue;
+
+    const indent = match[1].replace(/\t/g, "    ").length;
+    while (indents.length > 0 && indents[indents.length - 1] >= indent) indents.pop();
+    const depth = indents.length;
+    indents.push(indent);
+
+    // The innermost section containing the line
+    const section = outline.sections.filter(section => section.line < i && section.end > i).pop();
+    tasks.push({
+      notePath,
+      line: i + 1,
+      symbol: match[3],
+      status: statusOf(match[3]),
+      ...parseTaskText(match[4]),
+      heading: section?.path.join(" > "),
+      depth
+    });
+  }
+  return tasks;
+}
+
+/**
+ * The tasks of a note that may be listed: none of a private note's, and none
+ * from private blocks.
+ */
+function parseSharedTasks(config: VaultConfig, content: string, notePath: string): Task[] {
+  const { frontmatter, body } = parseFrontmatter(content.replace(/\r\n/g, "\n"));
+  if (isPrivateNote(config, notePath, frontmatter, body)) return [];
+  return parseTasks(removePrivateBlocks(content), notePath);
+}
+
+function cachedVaultTasks(vaultPath: string): Task[] {
+  const tasks: Task[] = [];
+  for (const [cacheKey, cached] of parsedTasks) {
+    if (cacheKey.startsWith(`${vaultPath}\0`)) tasks.push(...cached.tasks);
+  }
+  return tasks;
+}
+
+/**
+ * Read the tasks of every note in the vault, leaving out private notes and
+ * blocks. Notes are parsed again only when
+ * they changed, so repeated calls just check modification times. While the
+ * vault is watched, the watcher keeps the parsed tasks current instead.
+ */
+export async function getVaultTasks(config: VaultConfig): Promise<Task[]> {
+  if (scannedVaults.has(config.vaultPath) && isVaultWatched(config.vaultPath)) {
+    return cachedVaultTasks(config.vaultPath);
+  }
+
+  const notePaths = await listMarkdownFiles(config.vaultPath);
+  const tasks: Task[] = [];
+
+  for (const notePath of notePaths) {
+    const filePath = path.join(config.vaultPath, notePath);
+    const stat = await fs.stat(filePath).catch(() => undefined);
+    if (!stat) continue;
+
+    const cacheKey = `${config.vaultPath}\0${notePath}`;
+    let cached = parsedTasks.get(cacheKey);
+    if (!cached || cached.mtimeMs !== stat.mtimeMs) {
+      const content = await fs.readFile(filePath, "utf8");
+      cached = { mtimeMs: stat.mtimeMs, tasks: parseSharedTasks(config, content, notePath) };
+      parsedTasks.set(cacheKey, cached);
+    }
+    tasks.push(...cached.tasks);
+  }
+
+  // Forget notes that were deleted since the last call
+  const existing = new Set(notePaths);
+  for (const cacheKey of parsedTasks.keys()) {
+    const [vaultPath, notePath] = cacheKey.split("\0");
+    if (vaultPath === config.vaultPath && !existing.has(notePath)) {
+      parsedTasks.delete(cacheKey);
+    }
+  }
+
+  scannedVaults.add(config.vaultPath);
+  return tasks;
+}
+
+/**
+ * Parse the tasks of notes that were created, changed or deleted again.
+ */
+export async function updateTaskIndex(config: VaultConfig, notePaths: string[]): Promise<void> {
+  for (const notePath of notePaths) {
+    const cacheKey = `${config.vaultPath}\0${notePath}`;
+    const filePath = path.join(config.vaultPath, notePath);
+    try {
+      const stat = await fs.stat(filePath);
+      parsedTasks.set(cacheKey, { mtimeMs: stat.mtimeMs, tasks: parseSharedTasks(config, await fs.readFile(filePath, "utf8"), notePath) });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      parsedTasks.delete(cacheKey);
+    }
+  }
+}
+
+/**
+ * Filter tasks and sort them by due date (tasks without one last), then
+ * priority, then position in the vault.
+ */
+export function filterTasks(tasks: Task[], filter: TaskFilter): Task[] {
+  const status = filter.status ?? "open";
+  const tag = filter.tag?.trim().replace(/^#/, "").toLowerCase();
+  const priorityRank = (task: Task) => task.priority ? PRIORITY_ORDER.indexOf(task.priority) : 2.5;
+
+  return tasks
+    .filter(task => status === "all" || (status === "open" ? isOpenTask(task) : task.status === status))
+    .filter(task => !filter.dueBefore || (!!task.due && task.due <= filter.dueBefore))
+    .filter(task => !filter.dueAfter || (!!task.due && task.due >= filter.dueAfter))
+    // Nested tags match their parent, e.g. "project" finds #project/dain
+    .filter(task => !tag || task.tags.some(taskTag => taskTag === tag || taskTag.startsWith(`${tag}/`)))
+    .filter(task => !filter.notePath || task.notePath === filter.notePath)
+    .sort((a, b) =>
+      (a.due ?? "9999").localeCompare(b.due ?? "9999")
+      || priorityRank(a) - priorityRank(b)
+      || a.notePath.localeCompare(b.notePath)
+      || a.line - b.line);
+}
+
+/**
+ * Find the task to change in a note: the one on `line` if its text still
+ * matches, otherwise the only task whose description contains `text`.
+ */
+export function findTask(tasks: Task[], line?: number, text?: string): Task {
+  const query = text?.trim().toLowerCase();
+  const matches = (task: Task) => !query || task.description.toLowerCase().includes(query);
+
+  const onLine = line !== undefined ? tasks.find(task => task.line === line) : undefined;
+  if (onLine && matches(onLine)) return onLine;
+  if (!query) {
+    throw new Error(line !== undefined ? `There is no task on line ${line}` : "Give the line or text of the task");
+  }
+
+  const found = tasks.filter(matches);
+  if (found.length === 0) {
+    throw new Error(`No task matching "${text}" found`);
+  }
+  if (found.length > 1) {
+    throw new Error(`"${text}" matches ${found.length} tasks, give its line: ${found.map(task => `${task.line}: ${task.description}`).join("; ")}`);
+  }
+  return found[0];
+}
+
+/**
+ * Check off a task and add its done date the way the Tasks plugin does.
+ * The rest of the note is kept as it is.
+ */
+export function completeTask(content: string, task: Task, date: Temporal.PlainDate): string {
+  const eol = lineBreak(content);
+  const lines = content.split(/\r?\n/);
+  const line = lines[task.line - 1];
+  const match = line?.match(TASK_LINE);
+  if (!match) {
+    throw new Error(`Line ${task.line} of ${task.notePath} is no longer a task`);
+  }
+  const text = task.done ? match[4] : `${match[4].trimEnd()} ✅ ${date}`;
+  lines[task.line - 1] = `${match[1]}${match[2]} [x] ${text}`;
+  return lines.join(eol);
+}
+
+/**
+ * Write a task line in the Tasks plugin emoji format.
+ */
+export function formatTask(
+  description: string,
+  { tags = [], priority, due, scheduled }: { tags?: string[]; priority?: TaskPriority; due?: string; scheduled?: string } = {}
+): string {
+  const emoji = (value: string) => Object.keys(DATE_FIELDS).find(key => DATE_FIELDS[key as keyof typeof DATE_FIELDS] === value);
+  const parts = [
+    description.replace(/\s+/g, " ").trim(),
+    ...tags.map(tag => `#${tag.trim().replace(/^#/, "")}`).filter(tag => tag.length > 1),
+    priority && Object.keys(PRIORITIES).find(key => PRIORITIES[key] === priority),
+    scheduled && `${emoji("scheduled")} ${scheduled}`,
+    due && `${emoji("due")} ${due}`
+  ];
+  return `- [ ] ${parts.filter(Boolean).join(" ")}`;
+}
+
+/**
+ * Add the open tasks of the previous daily note to the drafted edits of today's
+ * note, under `heading`. Tasks that today's note already has are skipped, as are
+ * subtasks of tasks that are done. Nothing is rolled over from a private note or
+ * private block. Returns the edits and the tasks rolled over.
+ */
+export function planTaskRollover(
+  config: VaultConfig,
+  previousContent: string,
+  previousPath: string,
+  todayContent: string,
+  edits: NoteEdits,
+  heading: string
+): { edits: NoteEdits; rolledOver: Task[] } {
+  const previousTasks = parseSharedTasks(config, previousContent, previousPath);
+  // Private blocks are blanked line for line, so task lines keep their numbers
+  const previousLines = removePrivateBlocks(previousContent).split(/\r?\n/);
+  const key = (task: Task) => task.description.toLowerCase();
+
+  const existing = new Set(parseTasks(todayContent, "").map(key));
+  for (const edit of edits.sections) {
+    parseTasks(edit.content, "").forEach(task => existing.add(key(task)));
+  }
+
+  // A task is only rolled over when every task it is nested under is still open.
+  // It stays nested under the ones that are rolled over with it.
+  const rolledOver: Task[] = [];
+  const lines: string[] = [];
+  const parents: Task[] = [];
+  for (const task of previousTasks) {
+    parents.length = task.depth;
+    const open = isOpenTask(task) && parents.every(isOpenTask);
+    const depth = parents.filter(parent => rolledOver.includes(parent)).length;
+    parents.push(task);
+    if (open && task.description && !existing.has(key(task))) {
+      const match = previousLines[task.line - 1].match(TASK_LINE)!;
+      rolledOver.push(task);
+      lines.push(`${"  ".repeat(depth)}- [${match[3]}] ${match[4].trim()}`);
+      existing.add(key(task));
+    }
+  }
+  if (rolledOver.length === 0) {
+    return { edits, rolledOver };
+  }
+
+  // Without the heading, it is added at the end of the note
+  const outline = parseOutline(todayContent);
+  const section = resolveEditedSection(outline, heading);
+  const sectionPath = section ? section.path.join(" > ") : heading;
+  const current = section ? getSectionContent(outline, section) : "";
+
+  const sections = [...edits.sections];
+  const index = sections.findIndex(edit => edit.path === sectionPath);
+  const base = index === -1 ? current : sections[index].content;
+  const content = [base.trimEnd(), ...lines].filter(Boolean).join("\n");
+  if (index === -1) {
+    sections.push({ path: sectionPath, content });
+  } else {
+    sections[index] = { ...sections[index], content };
+  }
+  return { edits: { ...edits, sections }, rolledOver };
+}
+
+/**
+ * Add a task line to a note: at the end of the section under `heading`, which
+ * is added when the note doesn't have it, or at the end of the note.
+ */
+export function insertTask(content: string, taskLine: string, heading?: string): string {
+  if (heading) {
+    const name = heading.split(">").pop()!.replace(/^#+\s*/, "").trim();
+    if (parseOutline(content).sections.some(section => section.heading.toLowerCase() === name.toLowerCase())) {
+      return appendToSection(content, heading, taskLine, "task");
+    }
+    const eol = lineBreak(content);
+    return `${content.trimEnd()}${eol}${eol}## ${name}${eol}${taskLine}${eol}`.replace(/^(?:\r?\n)+/, "");
+  }
+  const eol = lineBreak(content);
+  const body = content.trimEnd();
+  if (body === "") return `${taskLine}${eol}`;
+  // Join a list at the end of the note, otherwise start a new paragraph
+  const lastLine = body.split(/\r?\n/).pop()!;
+  return `${body}${TASK_LINE.test(lastLine) ? eol : eol + eol}${taskLine}${eol}`;
+}
@@ -0,0 +1,185 @@
+import { Temporal } from "@js-temporal/polyfill";
+import fs from "fs/promises";
+import path from "path";
+import { formatDate, parseDate } from "./dates";
+
+export interface TemplateContext {
+  /** Title of the note being created, i.e. its file name without ".md" */
+  title: string;
+  /** Date (and time) the note is created for; date expressions are relative to it */
+  date: Temporal.PlainDateTime;
+  /** Default format of {{date}} from the core Templates plugin */
+  dateFormat: string;
+  /** Default format of {{time}} from the core Templates plugin */
+  timeFormat: string;
+}
+
+/**
+ * Read a template given its vault-relative path, with or without the ".md" extension.
+ * Returns undefined when the template doesn't exist.
+ */
+export async function readTemplate(vaultPath: string, templatePath: string): Promise<string | undefined> {
+  const fileName = templatePath.endsWith(".md") ? templatePath : `${templatePath}.md`;
+  try {
+    return await fs.readFile(path.join(vaultPath, fileName), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+// Shorthand units accepted in {{date+1d}}, as understood by moment.js
+const OFFSET_UNITS: Record<string, keyof Temporal.DurationLike> = {
+  y: "years",
+  Q: "months",
+  M: "months",
+  w: "weeks",
+  d: "days",
+  h: "hours",
+  m: "minutes",
+  s: "seconds"
+};
+
+/**
+ * Expand the core template variables: {{title}}, {{date}}, {{time}},
+ * {{date:FORMAT}}, {{time:FORMAT}}, offsets such as {{date+1d:FORMAT}} and
+ * the daily note shortcuts {{yesterday}} and {{tomorrow}}.
+ */
+function expandCoreVariables(template: string, context: TemplateContext): string {
+  return template
+    .replace(/{{\s*title\s*}}/gi, context.title)
+    .replace(/{{\s*yesterday\s*}}/gi, () => formatDate(context.date.subtract({ days: 1 }), context.dateFormat))
+    .replace(/{{\s*tomorrow\s*}}/gi, () => formatDate(context.date.add({ days: 1 }), context.dateFormat))
+    .replace(/{{\s*(date|time)\s*(?:([+-]\d+)\s*([yQMwdhms]))?\s*(?::(.*?))?\s*}}/gi, (_, variable: string, amount, unit, format) => {
+      let date = context.date;
+      if (amount) {
+        const count = Number(amount) * (unit === "Q" ? 3 : 1);
+        date = date.add({ [OFFSET_UNITS[unit]]: count });
+      }
+      const defaultFormat = variable.toLowerCase() === "time" ? context.timeFormat : context.dateFormat;
+      return formatDate(date, format?.trim() || defaultFormat);
+    });
+}
+
+type TemplaterArgument = string | number | { fileTitle: true };
+
+/**
+ * Split a Templater call's argument list into literal values.
+ * Returns undefined when an argument isn't a literal we can evaluate safely.
+ */
+function parseTemplaterArguments(source: string): TemplaterArgument[] | undefined {
+  const args: TemplaterArgument[] = [];
+  const pattern = /\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|`([^`]*)`|(-?\d+(?:\.\d+)?)|(tp\.file\.title))\s*(?:,|$)/y;
+  let index = 0;
+  while (index < source.length) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(source);
+    if (!match) return undefined;
+    if (match[4] !== undefined) {
+      args.push(Number(match[4]));
+    } else if (match[5] !== undefined) {
+      args.push({ fileTitle: true });
+    } else {
+      args.push((match[1] ?? match[2] ?? match[3]).replace(/\\(.)/g, "$1"));
+    }
+    index = pattern.lastIndex;
+  }
+  return args;
+}
+
+function applyOffset(date: Temporal.PlainDateTime, offset: TemplaterArgument | undefined): Temporal.PlainDateTime | undefined {
+  if (offset === undefined) return date;
+  if (typeof offset === "number") return date.add({ days: offset });
+  if (typeof offset === "string") {
+    try {
+      // Templater accepts ISO 8601 durations; moment also allows the sign inside, e.g. "P-1W"
+      const negative = /^-|^P-/.test(offset);
+      const duration = Temporal.Duration.from(offset.replace(/^-?P-?/, "P"));
+      return negative ? date.subtract(duration) : date.add(duration);
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+function resolveReference(
+  context: TemplateContext,
+  reference: TemplaterArgument | undefined,
+  referenceFormat: TemplaterArgument | undefined
+): Temporal.PlainDateTime | undefined {
+  if (reference === undefined || reference === "") return context.date;
+  // In daily notes the title is the note's own date
+  if (typeof reference === "object") return context.date;
+  if (typeof reference !== "string") return undefined;
+  const parsed = parseDate(reference, typeof referenceFormat === "string" ? referenceFormat : "YYYY-MM-DD");
+  return parsed?.toPlainDateTime(context.date.toPlainTime());
+}
+
+/**
+ * Evaluate a single Templater expression, or return undefined if it isn't one
+ * of the date/file helpers we support.
+ */
+function evaluateTemplaterExpression(expression: string, context: TemplateContext): string | undefined {
+  if (expression === "tp.file.title") return context.title;
+
+  const call = expression.match(/^tp\.(date|file)\.(\w+)\(([\s\S]*)\)$/);
+  if (!call) return undefined;
+  const [, module, method, argumentSource] = call;
+  const args = parseTemplaterArguments(argumentSource);
+  if (!args) return undefined;
+
+  const format = typeof args[0] === "string" ? args[0] : context.dateFormat;
+  if (args[0] !== undefined && typeof args[0] !== "string") return undefined;
+
+  if (module === "file") {
+    // The note is being created now, so creation and modification are the note's date
+    if (method === "creation_date" || method === "last_modified_date") {
+      return formatDate(context.date, typeof args[0] === "string" ? args[0] : "YYYY-MM-DD HH:mm");
+    }
+    return undefined;
+  }
+
+  switch (method) {
+    case "now": {
+      const reference = resolveReference(context, args[2], args[3]);
+      const date = reference && applyOffset(reference, args[1]);
+      return date ? formatDate(date, format) : undefined;
+    }
+    case "today":
+      return formatDate(context.date, format);
+    case "tomorrow":
+      return formatDate(context.date.add({ days: 1 }), format);
+    case "yesterday":
+      return formatDate(context.date.subtract({ days: 1 }), format);
+    case "weekday": {
+      if (typeof args[1] !== "number") return undefined;
+      const reference = resolveReference(context, args[2], args[3]);
+      if (!reference) return undefined;
+      // Weekday 0 is Sunday, the first day of the week in the default locale
+      const weekStart = reference.subtract({ days: reference.dayOfWeek % 7 });
+      return formatDate(weekStart.add({ days: args[1] }), format);
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Expand the common Templater date and file expressions, e.g.
+ * `<% tp.date.now("YYYY-MM-DD", -1, tp.file.title, "YYYY-MM-DD") %>`.
+ * Anything else, including `<%* ... %>` script blocks, is left untouched so
+ * Templater can still run it when the note is opened.
+ */
+function expandTemplaterExpressions(template: string, context: TemplateContext): string {
+  return template.replace(/<%([-_]?)\s*([^*][\s\S]*?)\s*([-_]?)%>/g, (original, _open, expression: string) => {
+    return evaluateTemplaterExpression(expression.trim(), context) ?? original;
+  });
+}
+
+/**
+ * Render a note template the way Obsidian would when creating a note from it.
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return expandTemplaterExpressions(expandCoreVariables(template, context), context);
+}
@@ -0,0 +1,226 @@
+import { z } from "zod";
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+import { invokeStructured } from "./providers";
+import { parseOutline } from "./sections";
+
+/**
+ * What was done to a transcript before it reached the note, reported back to the user.
+ */
+export interface TranscriptProcessing {
+  originalChars: number;
+  /** Length after removing markers and repeats, before any model cleanup */
+  preprocessedChars: number;
+  /** Speaker labels and timestamps removed */
+  markersRemoved: number;
+  /** Immediately repeated sentences and phrases removed */
+  repeatsRemoved: number;
+  /** Parts the transcript was cleaned in, 1 when it fit in a single prompt */
+  parts: number;
+}
+
+export interface PreparedTranscript {
+  /** The preprocessed transcript, or for long transcripts the cleaned and merged parts */
+  text: string;
+  /** Whether `text` was already cleaned and grouped under headings by the model */
+  cleaned: boolean;
+  processing: TranscriptProcessing;
+}
+
+// Transcripts longer than this are cleaned in parts before they are structured
+export const MAX_SINGLE_PASS_CHARS = 16000;
+// Size of each part of a long transcript
+const PART_CHARS = 8000;
+// Parts cleaned at the same time
+const CONCURRENCY = 4;
+
+const TIMESTAMP = String.raw`\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d{1,3})?`;
+// "Speaker 2 03:57", "Unknown Speaker  0:03", "Rami 1:02:03" on a line of their own
+const SPEAKER_LINE = new RegExp(String.raw`^[ \t]*(?:Speaker[ \t]*\d*|Unknown Speaker|[\p{Lu}][\p{L}.'-]*(?:[ \t]+[\p{Lu}][\p{L}.'-]*){0,2})[ \t]+\(?${TIMESTAMP}\)?[ \t]*$`, "gmu");
+// "Speaker 2 03:57" or "Speaker 1:" inside a line
+const SPEAKER_INLINE = new RegExp(String.raw`\b(?:Unknown Speaker|Speaker[ \t]*\d+)(?:[ \t]+\(?${TIMESTAMP}\)?|[ \t]*:)`, "gi");
+// "[03:57]", "(00:03:57)" and SRT style "00:00:01,000 --> 00:00:04,000"
+const TIMESTAMP_INLINE = new RegExp(String.raw`[\[(]${TIMESTAMP}[\])]|${TIMESTAMP}[ \t]*-->[ \t]*${TIMESTAMP}`, "g");
+// A run of 3 to 12 words said twice in a row, e.g. "I went to the I went to the store"
+const REPEATED_PHRASE = /\b(\p{L}[\p{L}\p{N}']*(?:[ \t,]+\p{L}[\p{L}\p{N}']*){2,11})[ \t,.]+\1\b/giu;
+
+const CLEANUP_INSTRUCTIONS = `
+The next message is part {part} of {parts} of a transcript of me speaking, which might contain transcription inaccuracies. Correct these transcription-induced errors to the best of your abilities:
+1. Fix spelling mistakes, misuse of punctuation, incomplete sentences and improper capitalization
+2. Use context and common sense to correct errors, but only fix clear errors and don't alter the content unnecessarily
+3. Leave out things I say twice in a row to make sure the speech-to-text gets them
+4. Keep my writing style, which is first person
+5. Group the text under "## " headings, each one tackling a different topic. Text that continues the previous part may come before the first heading.
+Return the cleaned text as the body.
+`;
+
+const cleanedPartSchema = z.object({
+  body: z.string().describe("The cleaned part in markdown, grouped under ## headings")
+});
+
+function sentenceKey(sentence: string): string {
+  return sentence.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+/**
+ * Clean up a raw transcript without a model: remove speaker labels and
+ * timestamps, drop sentences and phrases said twice in a row and normalize
+ * whitespace. Paragraph breaks are kept.
+ */
+export function preprocessTranscript(raw: string): { text: string; markersRemoved: number; repeatsRemoved: number } {
+  let markersRemoved = 0;
+  let repeatsRemoved = 0;
+  const removeMarker = () => {
+    markersRemoved++;
+    return "";
+  };
+
+  const text = raw
+    .replace(/\r\n?/g, "\n")
+    .replace(SPEAKER_LINE, removeMarker)
+    .replace(SPEAKER_INLINE, removeMarker)
+    .replace(TIMESTAMP_INLINE, removeMarker);
+
+  const paragraphs: string[] = [];
+  let previousKey = "";
+  for (const paragraph of text.split(/\n[ \t]*\n/)) {
+    const joined = paragraph.split("\n").map(line => line.trim()).filter(Boolean).join(" ").replace(/[ \t]+/g, " ");
+    if (!joined) continue;
+
+    const phrases = joined.replace(REPEATED_PHRASE, (_, phrase: string) => {
+      repeatsRemoved++;
+      return phrase;
+    });
+    const sentences: string[] = [];
+    for (const sentence of phrases.split(/(?<=[.!?])\s+/)) {
+      const key = sentenceKey(sentence);
+      // The same sentence twice in a row, possibly across a removed speaker marker
+      if (key && key === previousKey) {
+        repeatsRemoved++;
+        continue;
+      }
+      if (key) previousKey = key;
+      sentences.push(sentence);
+    }
+    if (sentences.length > 0) paragraphs.push(sentences.join(" "));
+  }
+
+  return { text: paragraphs.join("\n\n"), markersRemoved, repeatsRemoved };
+}
+
+/**
+ * Split a transcript into parts of at most about `maxChars`, between paragraphs
+ * where possible and otherwise between sentences.
+ */
+export function splitTranscript(text: string, maxChars: number = PART_CHARS): string[] {
+  const pieces = text.split(/\n\n/).flatMap(paragraph => paragraph.length <= maxChars
+    ? [paragraph]
+    : paragraph.split(/(?<=[.!?])\s+/));
+
+  const parts: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > maxChars) {
+      parts.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/**
+ * Merge the cleaned parts of a transcript into one note body. Sections with
+ * the same heading are combined under its first occurrence, and text before a
+ * part's first heading continues the previous part's last section.
+ */
+export function mergeCleanedParts(bodies: string[]): string {
+  const sections: { heading?: string; parts: string[] }[] = [];
+  let last: { heading?: string; parts: string[] } | undefined;
+
+  for (const body of bodies) {
+    const outline = parseOutline(body);
+    const level = Math.min(...outline.sections.map(section => section.level));
+    const top = outline.sections.filter(section => section.level === level);
+
+    const intro = outline.lines.slice(outline.bodyStart, top[0]?.line ?? outline.lines.length).join("\n").trim();
+    if (intro) {
+      if (!last) {
+        last = { parts: [] };
+        sections.push(last);
+      }
+      last.parts.push(intro);
+    }
+
+    for (const section of top) {
+      const content = outline.lines.slice(section.line + 1, section.end).join("\n").trim();
+      const existing = sections.find(merged => merged.heading?.toLowerCase() === section.heading.toLowerCase());
+      last = existing ?? { heading: section.heading, parts: [] };
+      if (!existing) sections.push(last);
+      if (content) last.parts.push(content);
+    }
+  }
+
+  return sections
+    .map(({ heading, parts }) => [heading ? `## ${heading}` : "", ...parts].filter(Boolean).join("\n\n"))
+    .join("\n\n");
+}
+
+async function cleanPart(text: string, part: number, parts: number): Promise<string> {
+  const prompt = ChatPromptTemplate.fromMessages([
+    ["system", CLEANUP_INSTRUCTIONS],
+    ["human", "{transcript}"]
+  ]);
+  const messages = await prompt.formatMessages({ part, parts, transcript: text });
+  const result = await invokeStructured("cleanup", cleanedPartSchema, messages, "cleaned_transcript_part");
+  return result.body.trim();
+}
+
+/**
+ * Preprocess a transcript and, when it is too long for one prompt, clean its
+ * parts in parallel and merge their headings. Short transcripts are returned
+ * preprocessed only, for the structuring prompt to clean.
+ */
+export async function prepareTranscript(
+  raw: string,
+  onProgress: (message: string) => void = message => console.log(message)
+): Promise<PreparedTranscript> {
+  const { text, markersRemoved, repeatsRemoved } = preprocessTranscript(raw);
+  const processing: TranscriptProcessing = {
+    originalChars: raw.length,
+    preprocessedChars: text.length,
+    markersRemoved,
+    repeatsRemoved,
+    parts: 1
+  };
+  onProgress(`Preprocessed transcript: ${raw.length} → ${text.length} characters, ${markersRemoved} markers and ${repeatsRemoved} repeats removed`);
+  if (text.length <= MAX_SINGLE_PASS_CHARS) {
+    return { text, cleaned: false, processing };
+  }
+
+  const parts = splitTranscript(text);
+  processing.parts = parts.length;
+  const bodies = new Array<string>(parts.length);
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < parts.length) {
+      const index = next++;
+      bodies[index] = await cleanPart(parts[index], index + 1, parts.length);
+      onProgress(`Cleaned part ${++done} of ${parts.length}`);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, parts.length) }, worker));
+
+  return { text: mergeCleanedParts(bodies), cleaned: true, processing };
+}
+
+/**
+ * Describe the preprocessing in a sentence for the tool response.
+ */
+export function describeProcessing(processing: TranscriptProcessing): string {
+  const removed = `removed ${processing.markersRemoved} speaker/timestamp markers and ${processing.repeatsRemoved} repeats`;
+  return processing.parts > 1
+    ? `The transcript was long, so it was cleaned in ${processing.parts} parts and merged; ${removed}.`
+    : `Preprocessing ${removed}.`;
+}
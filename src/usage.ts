@@ -0,0 +1,260 @@
+import fs from "fs/promises";
+import path from "path";
+import { AsyncLocalStorage } from "async_hooks";
+import { Temporal } from "@js-temporal/polyfill";
+import { serviceDataPath, userTimeZone, VaultConfig } from "./config";
+import { hashContent, writeFileAtomic } from "./files";
+
+/**
+ * One model request, or a batch of embeddings, with its token count and estimated cost.
+ */
+export interface UsageRecord {
+  time: string;
+  kind: "chat" | "embedding";
+  /** Model task, e.g. "cleanup" */
+  task: string;
+  /** Service tool the request was made for, or "background" for the watcher and startup indexing */
+  tool: string;
+  /** Name of the request: the structured output tool the model was asked to call, or the embedding step */
+  request: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated cost in US dollars, 0 for answers from the cache */
+  cost: number;
+  /** Whether the answer came from the cache instead of the provider */
+  cached: boolean;
+}
+
+export interface UsageQuery {
+  since?: Temporal.PlainDate;
+  until?: Temporal.PlainDate;
+  tool?: string;
+  /** Time zone the dates are days in, the user's by default */
+  timeZone?: string;
+}
+
+export interface ModelPrice {
+  /** US dollars per million input tokens */
+  input: number;
+  /** US dollars per million output tokens */
+  output: number;
+}
+
+// OpenAI list prices. Dated model versions such as "gpt-4o-2024-08-06" use the price of the longest matching prefix.
+const OPENAI_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-ada-002": { input: 0.1, output: 0 }
+};
+
+const USAGE_LOG = "usage.jsonl";
+const BACKGROUND_TOOL = "background";
+
+const toolContext = new AsyncLocalStorage<string>();
+
+// Spend of the current day, loaded from the log once and kept up to date as requests are recorded
+let spentToday: { vaultPath: string; timeZone: string; date: string; total: number; byTool: Map<string, number> } | undefined;
+
+/**
+ * Run a tool handler so the model requests it makes are attributed to the tool.
+ */
+export function runWithTool<T>(tool: string, call: () => Promise<T>): Promise<T> {
+  return toolContext.run(tool, call);
+}
+
+/**
+ * The tool the current model request is made for.
+ */
+export function currentTool(): string {
+  return toolContext.getStore() ?? BACKGROUND_TOOL;
+}
+
+/**
+ * Rough token count for providers that don't report one: about four characters per token.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function findPrice(config: VaultConfig, provider: string, model: string): ModelPrice | undefined {
+  // Local servers are free unless a price is configured for the model
+  const configured = Object.fromEntries(Object.entries(config.usage.prices)
+    .map(([name, price]): [string, ModelPrice] => [name, { input: price.input ?? 0, output: price.output ?? 0 }]));
+  const prices = provider === "openai" ? { ...OPENAI_PRICES, ...configured } : configured;
+  const match = Object.keys(prices)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : undefined;
+}
+
+/**
+ * Estimated cost of a request in US dollars.
+ */
+export function estimateCost(config: VaultConfig, provider: string, model: string, inputTokens: number, outputTokens: number): number {
+  const price = findPrice(config, provider, model);
+  return price ? (inputTokens * price.input + outputTokens * price.output) / 1_000_000 : 0;
+}
+
+/**
+ * Cache key of a request: a hash of everything that determines its answer.
+ */
+export function cacheKey(request: unknown): string {
+  return hashContent(JSON.stringify(request));
+}
+
+function cachePath(config: VaultConfig, kind: "chat" | "embeddings", key: string): string {
+  return serviceDataPath(config, "cache", kind, key.slice(0, 2), `${key}.json`);
+}
+
+export async function readCache<T>(config: VaultConfig, kind: "chat" | "embeddings", key: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(cachePath(config, kind, key), "utf8"));
+  } catch {
+    // Missing, or cut off by a crash while writing
+    return undefined;
+  }
+}
+
+/**
+ * Store an answer in the cache. A failure to write is reported but doesn't fail the request.
+ */
+export async function writeCache(config: VaultConfig, kind: "chat" | "embeddings", key: string, value: unknown): Promise<void> {
+  try {
+    await writeFileAtomic(cachePath(config, kind, key), JSON.stringify(value));
+  } catch (error) {
+    console.error("Failed to write the model cache:", error);
+  }
+}
+
+// Budgets are counted in days of the configured time zone, since model requests don't know which agent they're for
+async function getSpentToday(config: VaultConfig): Promise<NonNullable<typeof spentToday>> {
+  const timeZone = userTimeZone(config);
+  const today = Temporal.Now.plainDateISO(timeZone);
+  if (spentToday?.vaultPath !== config.vaultPath || spentToday.timeZone !== timeZone || spentToday.date !== today.toString()) {
+    const byTool = new Map<string, number>();
+    let total = 0;
+    for (const record of await readUsage(config, { since: today, timeZone })) {
+      total += record.cost;
+      byTool.set(record.tool, (byTool.get(record.tool) ?? 0) + record.cost);
+    }
+    spentToday = { vaultPath: config.vaultPath, timeZone, date: today.toString(), total, byTool };
+  }
+  return spentToday;
+}
+
+/**
+ * Today's estimated spend in total and for one tool, today being the day the budgets count.
+ */
+export async function getSpendToday(config: VaultConfig, tool: string): Promise<{ total: number; tool: number }> {
+  const spent = await getSpentToday(config);
+  return { total: spent.total, tool: spent.byTool.get(tool) ?? 0 };
+}
+
+/**
+ * Refuse a model request once today's spend has reached the daily budget or
+ * the budget of the tool making it. Answers from the cache are always allowed.
+ */
+export async function checkBudget(config: VaultConfig, tool: string): Promise<void> {
+  const { dailyBudget, toolBudgets } = config.usage;
+  const spent = await getSpendToday(config, tool);
+  if (dailyBudget !== undefined && spent.total >= dailyBudget) {
+    throw new Error(`The daily model budget of $${dailyBudget.toFixed(2)} is used up ($${spent.total.toFixed(2)} spent today). Raise usage.dailyBudget or try again tomorrow.`);
+  }
+  const toolBudget = toolBudgets[tool];
+  if (toolBudget !== undefined && spent.tool >= toolBudget) {
+    throw new Error(`The daily model budget of $${toolBudget.toFixed(2)} for ${tool} is used up ($${spent.tool.toFixed(2)} spent today). Raise usage.toolBudgets["${tool}"] or try again tomorrow.`);
+  }
+}
+
+/**
+ * Append a request to the usage log in the service data folder. A failure to
+ * write the log is reported but doesn't fail the request.
+ */
+export async function recordUsage(config: VaultConfig, record: Omit<UsageRecord, "time">): Promise<void> {
+  const entry: UsageRecord = { time: new Date().toISOString(), ...record };
+  const spent = await getSpentToday(config);
+  spent.total += entry.cost;
+  spent.byTool.set(entry.tool, (spent.byTool.get(entry.tool) ?? 0) + entry.cost);
+  try {
+    const logPath = serviceDataPath(config, USAGE_LOG);
+    await fs.mkdir(path.dirname(logPath), { recursive: true });
+    await fs.appendFile(logPath, `${JSON.stringify(entry)}\n`, "utf8");
+  } catch (error) {
+    console.error("Failed to write the usage log:", error);
+  }
+}
+
+/**
+ * Read the usage log, oldest requests first.
+ */
+export async function readUsage(config: VaultConfig, query: UsageQuery = {}): Promise<UsageRecord[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(serviceDataPath(config, USAGE_LOG), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const timeZone = userTimeZone(config, query.timeZone);
+  const records: UsageRecord[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    let record: UsageRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      // A line cut off by a crash while writing
+      continue;
+    }
+    const date = Temporal.Instant.from(record.time).toZonedDateTimeISO(timeZone).toPlainDate();
+    if (query.since && Temporal.PlainDate.compare(date, query.since) < 0) continue;
+    if (query.until && Temporal.PlainDate.compare(date, query.until) > 0) continue;
+    if (query.tool && record.tool !== query.tool) continue;
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Usage of one tool on one day.
+ */
+export interface UsageSummary {
+  date: string;
+  tool: string;
+  requests: number;
+  /** Requests answered from the cache */
+  cachedRequests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+/**
+ * Add up usage records per day of a time zone and tool, newest day first and
+ * the most expensive tool first within a day.
+ */
+export function summarizeUsage(records: UsageRecord[], timeZone: string): UsageSummary[] {
+  const summaries = new Map<string, UsageSummary>();
+  for (const record of records) {
+    const date = Temporal.Instant.from(record.time).toZonedDateTimeISO(timeZone).toPlainDate().toString();
+    const key = `${date}\0${record.tool}`;
+    const summary = summaries.get(key)
+      ?? { date, tool: record.tool, requests: 0, cachedRequests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+    summary.requests++;
+    if (record.cached) summary.cachedRequests++;
+    summary.inputTokens += record.inputTokens;
+    summary.outputTokens += record.outputTokens;
+    summary.cost += record.cost;
+    summaries.set(key, summary);
+  }
+  return [...summaries.values()].sort((a, b) => b.date.localeCompare(a.date) || b.cost - a.cost || a.tool.localeCompare(b.tool));
+}
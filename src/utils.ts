@@ -1,43 +1,18 @@
 import path from "path";
-import { VAULT_PATH } from ".";
+import { z } from "zod";
 import fs from 'fs/promises';
 import { ChatPromptTemplate } from "@langchain/core/prompts";
-import { ChatOpenAI } from "@langchain/openai";
 import { Temporal } from "@js-temporal/polyfill";
-import { createVectorStore, findSimilarNotes, loadVaultNotes, saveVectorStore } from "./embeddings";
-import { MemoryVectorStore } from "langchain/vectorstores/memory";
-import { Chroma } from "@langchain/community/vectorstores/chroma";
-
-// Function to search for related notes
-export async function searchRelatedNotes(content: string, excludeTitle: string): Promise<string[]> {
-  const vaultNotes = loadVaultNotes(VAULT_PATH);
-  const vaultPath = "/Users/rami/Documents/Obsidian"; // adjust this to your vault's location
-  const vectorStoreFile = path.join(vaultPath, "vectorStore.json");
-
-  // Check if a stored vector store exists; if so, load it. Otherwise, create it.
-  return [] // similarNotes.map(doc => doc.metadata.fileName);
-  let vectorStore: Chroma;
-  // try {
-  //   await fs.access(vectorStoreFile);
-  //   console.log("Loading existing vector store from disk...");
-  //   vectorStore = await loadVectorStore(vectorStoreFile);
-  // } catch (e) {
-  //   console.log("Creating new vector store...");
-  vectorStore = await createVectorStore(vaultPath);
-  //   await saveVectorStore(vectorStore, vectorStoreFile);
-  // }
-
-  // Now, given some query content (for your current note), find similar notes.
-  const similarNotes = await findSimilarNotes(vectorStore, content, 5);
-
-  console.log("Top similar notes:");
-  similarNotes.forEach(doc => {
-    console.log(`- ${doc[0].metadata.fileName}: ${doc[0].pageContent.substring(0, 100)}...`);
-  });
-
-  // if it's a title with YYYY-MM-DD, skip all the notes that are in the same folder
-
-}
+import { invokeStructured } from "./providers";
+import { userTimeZone, VaultConfig } from "./config";
+import { formatDate, parseDate, parseRelativeDate } from "./dates";
+import { createFileAtomic, fileExists } from "./files";
+import { readTemplate, renderTemplate } from "./templates";
+import { listVaultTags } from "./search";
+import { parseFrontmatter, toVaultPath } from "./vault";
+import { findPrivateBlocks, isPrivateNote } from "./privacy";
+import { getSectionContent, NoteEdits, NoteOutline, parseOutline } from "./sections";
+import { MAX_SINGLE_PASS_CHARS, prepareTranscript, TranscriptProcessing } from "./transcripts";
 
 // Add this constant with your structuring instructions
 const STRUCTURING_INSTRUCTIONS = `
@@ -50,25 +25,87 @@ Your goal is to take this transcript, which might contain transcription inaccura
 6. Maintain a similar writing style as the way I speak, which is first person, and
 7. Group my transcript into different headings, each one tackling a different topic
 
-+++ TRANSCRIPT
-{raw_transcript}
+Return the cleaned transcript as the note body, together with:
+- title: a short, descriptive note title (no dates, no special characters such as : / # ^ [ ])
+- aliases: other names someone might search the note by, if any
+- tags: 1 to 5 topic tags in lowercase kebab-case without "#". Prefer these existing vault tags where they fit: {existing_tags}
+- summary: one sentence describing what the note is about
 
+The transcript is the next message.
+`;
 
-+++ CLEANED TRANSCRIPT
+// Used for long transcripts, which are cleaned in parts before they get here
+const NOTE_METADATA_INSTRUCTIONS = `
+The next message is a cleaned transcript of me speaking, grouped under headings{truncated}. Return:
+- title: a short, descriptive note title (no dates, no special characters such as : / # ^ [ ])
+- aliases: other names someone might search the note by, if any
+- tags: 1 to 5 topic tags in lowercase kebab-case without "#". Prefer these existing vault tags where they fit: {existing_tags}
+- summary: one sentence describing what the note is about
 `;
 
-// Function to structure raw content
-export async function structureContent(rawContent: string): Promise<{ title: string; content: string; tags: string[] }> {
-  const prompt = ChatPromptTemplate.fromTemplate(STRUCTURING_INSTRUCTIONS);
-  const llm = new ChatOpenAI();
-  const chain = prompt.pipe(llm);
+const structuredNoteSchema = z.object({
+  title: z.string().min(1).max(100).describe("Short, descriptive title of the note"),
+  aliases: z.array(z.string()).describe("Alternative names of the note"),
+  tags: z.array(z.string()).describe("Topic tags, preferably existing vault tags"),
+  summary: z.string().describe("One sentence summary of the note"),
+  body: z.string().describe("The cleaned transcript in markdown, grouped under headings")
+});
+
+export interface StructuredNote {
+  title: string;
+  aliases: string[];
+  tags: string[];
+  summary: string;
+  content: string;
+  processing: TranscriptProcessing;
+}
+
+// Only the most used tags are offered to the model to keep the prompt small
+const MAX_PROMPT_TAGS = 100;
+
+/**
+ * Turn tags suggested by the model or typed by the user into valid Obsidian
+ * tags, spelled the way the vault index stores them (lowercase, without "#").
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags
+    .map(tag => tag.trim().replace(/^#+/, "").replace(/\s+/g, "-").replace(/[^\p{L}\p{N}_/-]/gu, "").toLowerCase())
+    // Obsidian requires at least one non-numeric character
+    .filter(tag => tag && !/^[\d/]+$/.test(tag));
+  return [...new Set(normalized)];
+}
+
+/**
+ * Clean up a transcript and structure it into a note with a title, tags and
+ * summary. Long transcripts are cleaned in parts first, and only the metadata
+ * is asked for on the merged result.
+ */
+export async function structureContent(config: VaultConfig, rawContent: string): Promise<StructuredNote> {
+  const existingTags = (await listVaultTags(config)).slice(0, MAX_PROMPT_TAGS).map(({ tag }) => tag);
+  const transcript = await prepareTranscript(rawContent);
 
-  const response = await chain.invoke({ raw_transcript: rawContent });
+  const prompt = ChatPromptTemplate.fromMessages([
+    ["system", transcript.cleaned ? NOTE_METADATA_INSTRUCTIONS : STRUCTURING_INSTRUCTIONS],
+    ["human", "{raw_transcript}"]
+  ]);
+  const messages = await prompt.formatMessages({
+    raw_transcript: transcript.text.slice(0, MAX_SINGLE_PASS_CHARS),
+    truncated: transcript.text.length > MAX_SINGLE_PASS_CHARS ? ", cut off after the first part" : "",
+    existing_tags: existingTags.length > 0 ? existingTags.join(", ") : "(none yet)"
+  });
 
-  const title = "Structured Thoughts";
-  const tags = ["structured", "thoughts"];
+  const note = transcript.cleaned
+    ? { ...await invokeStructured("cleanup", structuredNoteSchema.omit({ body: true }), messages, "note_metadata"), body: transcript.text }
+    : await invokeStructured("cleanup", structuredNoteSchema, messages, "structured_note");
 
-  return { title, content: response.content.toString(), tags };
+  return {
+    title: note.title.trim(),
+    aliases: note.aliases.map(alias => alias.trim()).filter(Boolean),
+    tags: normalizeTags(note.tags),
+    summary: note.summary.trim(),
+    content: note.body.trim(),
+    processing: transcript.processing
+  };
 }
 
 const DAILY_NOTE_STRUCTURING_INSTRUCTIONS = `
@@ -81,10 +118,11 @@ Every day, I will be giving you a transcript of my daily reflection where I go t
 3. Only fix clear errors, don't alter the content unnecessarily
 4. Maintain a similar writing style as the way I speak, which is first person, and
 5. Group my transcript into different headings, each one tackling a different topic
+{cleanup_result}
 
 Step 2:
 After cleaning and polishing the transcript, please take some time to deeply reflect and analyze that transcript.
-You goal for step 2 is to take this cleaned transcript and populate my daily journal markdown file that you can take a look at here
+You goal for step 2 is to take this cleaned transcript and fill in my daily journal markdown file that you can take a look at here
 
 +++ START OF DAILY JOURNAL MARKDOWN FILE
 
@@ -94,80 +132,272 @@ You goal for step 2 is to take this cleaned transcript and populate my daily jou
 
 As you can see, the markdown file contains several inputs in the data and several questions within the file content. To help achieve the ultimate goal for step 2 fully and correctly. We will split step 2 into several tasks
 - Task 1:
-	- One of the headers that you will find is one called "Cleaned Transcript". In there, please place the cleaned transcript that you wrote during step one.
+	- Fill in the metadata fields under "frontmatter". {summary_instructions}Fill {metric_keys} with a number between 0 and 10, based on the information that I shared in the raw transcript where I mentioned a certain number for each key. So for example, I might  say something like "thanks to my good sleep I felt so energetic so I would give myself an eight on energy". This means that for the key called "Energy", you would fill it with 8. For "Rating", which is just my overall score for the day, I might say something like "overall, I would say today was a five", so that means you will need to fill "Rating" with 5. If no number was mentioned for a key, set it to null. These fields must be numbers or null, anything else would break the markdown file.
 - Task 2:
-	- After you ensure you are fully done with task 1, please leverage that cleaned transcript to populate the rest of the file.
-	- Start with populating the metadata keys like "Summary" with a summarized version of the cleaned transcript. Then populate all keys that lie under "Summary" with a number between 0 and 10, based on the information that I shared in the raw transcript where I mentioned a certain number for each key in the metadata. So for example, I might  say something like "thanks to my good sleep I felt so energetic so I would give myself an eight on energy". This means that for the key called "Energy", you would fill it with an "8". Do the same thing for all the metadata fields that lie under "Summary". For "Rating", which is just my overall score for the day, I might say something like "overall, I would say today was a five", so that means you will need to populate the "Rating" with "5". I will most likely share a number for each of the rating metadata but if none was mentioned in the transcript, please leave that metadata key empty. All these metadatas under "Summary" should be filled with a number, anything else would break the markdown file.
-	- After filling out all the metadata, the next step would be filling out the headers and questions that are in my markdown file template
+	- Fill in the headers and questions of the file under "sections", keyed by heading path. Give the complete new content of a section without its heading, keeping any questions from the template, and leave out sections you don't change.
 		- for example, one of the headers in the template is "Improvements". What you need to do for this is deeply reflect on the cleaned transcript and look for things that I mentioned throughout the transcript where I signify that I would like to get better at something. To also fulfill you're role as my wise advisor, please place a few of your own advice for improvements that you would recommend based on your analysis of my transcript. Ensure the advice and suggestions for improvements are practical, personalized, and connected to a deeper reason/motivation.
-Alright let's begin!
+	- Don't invent new headers or metadata keys.
 
-+++ START OF TRANSCRIPT TO USE FOR STEP 1
+The transcript to use for step 1 is the next message. It is my reflection on {day}. Alright let's begin!
+`;
 
-{raw_transcript}
+// The section the cleaned transcript goes into
+const TRANSCRIPT_HEADING = "Cleaned Transcript";
 
-+++ END OF TRANSCRIPT TO USE FOR STEP 1
+/**
+ * Work out what the model may fill in from the daily note itself, which was
+ * created from the daily-note template: the "Summary" property, the numeric
+ * properties listed after it (or all numeric properties if there is no
+ * "Summary"), and every uniquely named section.
+ */
+function describeDailyNote(outline: NoteOutline) {
+  const keys = Object.keys(outline.frontmatter);
+  const summaryIndex = keys.findIndex(key => key.toLowerCase() === "summary");
+  const metricKeys = summaryIndex === -1
+    ? keys.filter(key => typeof outline.frontmatter[key] === "number")
+    : keys.slice(summaryIndex + 1);
 
-Please feel free to write your thoughts out as you go through the different steps, but when it's time for you to rewrite the markdown file, I need you to give me the ABSOLUTELY COMPLETE revised markdown without ANY new headers and without adding or removing any metadata
-`;
+  const paths = outline.sections.map(section => section.path.join(" > "));
+  const uniquePaths = paths.filter(sectionPath => paths.indexOf(sectionPath) === paths.lastIndexOf(sectionPath));
+  const transcriptPath = uniquePaths.find(sectionPath =>
+    sectionPath.split(" > ").pop()!.toLowerCase() === TRANSCRIPT_HEADING.toLowerCase());
+
+  return {
+    summaryKey: summaryIndex === -1 ? undefined : keys[summaryIndex],
+    metricKeys,
+    sectionPaths: uniquePaths.filter(sectionPath => sectionPath !== transcriptPath),
+    transcriptPath
+  };
+}
 
 /**
- * Uses an LLM-based prompt chain to structure and clean a raw transcript.
- * The returned JSON object should contain:
- * - title: A concise title based on the transcript.
- * - content: The cleaned transcript organized under headings.
- * - tags: A list of relevant tags.
+ * Schema of the edits the model may return for a daily note. Unknown
+ * properties or sections and non-numeric scores fail validation.
  */
-export async function structureDailyNote(dailyNote: string, rawContent: string): Promise<string> {
-  // Create the prompt using the template and insert the raw transcript.
-  const prompt = ChatPromptTemplate.fromTemplate(DAILY_NOTE_STRUCTURING_INSTRUCTIONS);
-  // Initialize the LLM (set temperature to 0 for more deterministic output).
-  const llm = new ChatOpenAI({ temperature: 0, model: 'gpt-4o' });
-  // Pipe the prompt to the LLM to form a chain.
-  const chain = prompt.pipe(llm);
-  // Invoke the chain with the raw transcript.
-  console.log("Invoking chain...", dailyNote, rawContent);
-  try {
-    const response = await chain.invoke({ md_file: dailyNote, raw_transcript: rawContent });
-    // Validate that required keys exist.
-    if (typeof response.content !== "string") {
-      throw new Error("Invalid structure in LLM output");
+function dailyNoteEditSchema(fields: ReturnType<typeof describeDailyNote>) {
+  const frontmatter: z.ZodRawShape = {};
+  if (fields.summaryKey) {
+    frontmatter[fields.summaryKey] = z.string().describe("Short summary of the day");
+  }
+  for (const key of fields.metricKeys) {
+    frontmatter[key] = z.number().min(0).max(10).nullable().describe(`Score from 0 to 10 for ${key}, null if not mentioned`);
+  }
+  const sections = Object.fromEntries(fields.sectionPaths.map(sectionPath =>
+    [sectionPath, z.string().optional().describe(`New content of the "${sectionPath}" section`)]));
+
+  return z.object({
+    cleanedTranscript: z.string().optional().describe("The cleaned transcript, grouped under headings"),
+    frontmatter: z.object(frontmatter).strict(),
+    sections: z.object(sections).strict()
+  }).strict();
+}
+
+/**
+ * Ask the model how to fill in a daily note from a reflection transcript.
+ * The model returns property values and section contents rather than a
+ * rewritten file, so the edits can be validated and applied without touching
+ * anything else in the note. Long transcripts are cleaned in parts first and
+ * go into the note as cleaned, so the model doesn't have to repeat them.
+ */
+export async function planDailyNoteUpdate(
+  config: VaultConfig,
+  notePath: string,
+  dailyNote: string,
+  rawContent: string
+): Promise<{ edits: NoteEdits; processing: TranscriptProcessing }> {
+  const outline = parseOutline(dailyNote);
+  const { frontmatter, body } = parseFrontmatter(dailyNote.replace(/\r\n/g, "\n"));
+  if (isPrivateNote(config, notePath, frontmatter, body)) {
+    throw new Error(`${notePath} is private, so it can't be sent to the model to be filled in`);
+  }
+  const fields = describeDailyNote(outline);
+  const schema = dailyNoteEditSchema(fields);
+  const transcript = await prepareTranscript(rawContent);
+
+  const prompt = ChatPromptTemplate.fromMessages([
+    ["system", DAILY_NOTE_STRUCTURING_INSTRUCTIONS],
+    ["human", "{raw_transcript}"]
+  ]);
+  const messages = await prompt.formatMessages({
+    md_file: dailyNote,
+    day: formatDate(getDailyNoteDate(config, notePath) ?? currentDailyNoteDate(config), "dddd, MMMM Do YYYY"),
+    summary_instructions: fields.summaryKey ? `Start with "${fields.summaryKey}", a summarized version of the cleaned transcript. ` : "",
+    metric_keys: fields.metricKeys.length > 0 ? fields.metricKeys.map(key => `"${key}"`).join(", ") : "the numeric keys",
+    cleanup_result: transcript.cleaned
+      ? "The transcript has already been cleaned this way, so leave out \"cleanedTranscript\"."
+      : "Return the result as \"cleanedTranscript\".",
+    raw_transcript: transcript.text
+  });
+
+  const result = await invokeStructured("dailyReflection", schema, messages, "daily_note_edits", [notePath]);
+
+  const sections: NoteEdits["sections"] = [];
+  for (const [sectionPath, content] of Object.entries(result.sections as Record<string, string | undefined>)) {
+    if (content === undefined) continue;
+    // The schema only allows the unique full paths from describeDailyNote, so an exact lookup always finds the section
+    const section = outline.sections.find(candidate => candidate.path.join(" > ") === sectionPath)!;
+    const current = getSectionContent(outline, section);
+    // The model never saw the section's private blocks, so keep them rather than losing them in the rewrite
+    const kept = findPrivateBlocks(current).filter(block => !content.includes(block));
+    const updated = [content.trim(), ...kept].filter(Boolean).join("\n\n");
+    if (updated !== current) {
+      sections.push({ path: sectionPath, content: updated });
     }
-    return response.content.toString();
-  } catch (error) {
-    throw new Error("Failed to parse structured content: " + error);
   }
+  const cleanedTranscript = transcript.cleaned ? transcript.text : result.cleanedTranscript ?? transcript.text;
+  sections.push({ path: fields.transcriptPath ?? TRANSCRIPT_HEADING, content: cleanedTranscript.trim() });
+
+  return {
+    edits: { frontmatter: result.frontmatter, sections, numericKeys: fields.metricKeys },
+    processing: transcript.processing
+  };
+}
+
+/**
+ * Path of the daily note for a date, using the configured daily-note folder and file name format.
+ */
+export function getDailyNoteFilePath(config: VaultConfig, date: Temporal.PlainDate): string {
+  return path.join(config.vaultPath, config.dailyNotes.folder, `${formatDate(date, config.dailyNotes.format)}.md`);
+}
+
+/**
+ * The date of a daily note from its vault-relative path, or undefined when the note isn't one.
+ */
+export function getDailyNoteDate(config: VaultConfig, notePath: string): Temporal.PlainDate | undefined {
+  const { folder, format } = config.dailyNotes;
+  if (folder && !notePath.startsWith(`${folder}/`)) return undefined;
+  const name = (folder ? notePath.slice(folder.length + 1) : notePath).replace(/\.md$/, "");
+  return parseDate(name, format);
+}
+
+export interface DailyNote {
+  date: Temporal.PlainDate;
+  /** Vault-relative path of the note */
+  notePath: string;
+  frontmatter: Record<string, unknown>;
+  body: string;
+}
+
+/**
+ * Read the existing daily notes from `start` to `end` (inclusive), oldest first.
+ * Days without a note are left out.
+ */
+export async function readDailyNotes(config: VaultConfig, start: Temporal.PlainDate, end: Temporal.PlainDate): Promise<DailyNote[]> {
+  const notes: DailyNote[] = [];
+  for (let date = start; Temporal.PlainDate.compare(date, end) <= 0; date = date.add({ days: 1 })) {
+    const filePath = getDailyNoteFilePath(config, date);
+    const content = await fs.readFile(filePath, "utf8").catch((error: unknown) => {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    });
+    if (content !== undefined) {
+      notes.push({ date, notePath: toVaultPath(config.vaultPath, filePath), ...parseFrontmatter(content) });
+    }
+  }
+  return notes;
+}
+
+export interface DayOptions {
+  /** IANA time zone, `dailyNotes.timeZone` or the server's by default */
+  timeZone?: string;
+  /** Hour the day starts at, `dailyNotes.dayStartHour` by default */
+  dayStartHour?: number;
+}
+
+/**
+ * The day whose daily note the current moment belongs to in a time zone.
+ * Before the day start hour (e.g. 4am) it is still the previous day.
+ */
+export function currentDailyNoteDate(config: VaultConfig, options: DayOptions = {}): Temporal.PlainDate {
+  const timeZone = userTimeZone(config, options.timeZone);
+  let now: Temporal.ZonedDateTime;
+  try {
+    now = Temporal.Now.zonedDateTimeISO(timeZone);
+  } catch {
+    throw new Error(`Unknown time zone "${timeZone}", expected an IANA name such as "Europe/Amsterdam"`);
+  }
+  return now.subtract({ hours: options.dayStartHour ?? config.dailyNotes.dayStartHour }).toPlainDate();
+}
+
+/**
+ * Resolve the day a daily note is asked for: today when no date is given,
+ * otherwise an ISO date, a date in the daily note format or a relative
+ * expression such as "yesterday" or "last Friday" (see parseRelativeDate).
+ */
+export function resolveDailyNoteDate(config: VaultConfig, expression: string | undefined, options: DayOptions = {}): Temporal.PlainDate {
+  const today = currentDailyNoteDate(config, options);
+  if (!expression?.trim()) return today;
+  const date = parseRelativeDate(expression, today) ?? parseDate(expression.trim(), config.dailyNotes.format);
+  if (!date) {
+    throw new Error(`Can't tell which day "${expression}" is. Use a date such as 2025-01-31, "yesterday", "3 days ago" or a weekday such as "last Friday".`);
+  }
+  return date;
 }
-function formatDateYYYYMMDD(date: Temporal.PlainDate): string {
-  const year = date.year.toString().padStart(4, '0');
-  const month = date.month.toString().padStart(2, '0');
-  const day = date.day.toString().padStart(2, '0');
 
-  return `${year}-${month}-${day}`;
+/**
+ * The content a new daily note for a date gets from the configured daily-note
+ * template, without writing it. `{{time}}` is the current time in `timeZone`.
+ */
+export async function renderDailyNote(config: VaultConfig, date: Temporal.PlainDate, timeZone: string = userTimeZone(config)): Promise<string> {
+  let template = "";
+  if (config.dailyNotes.template) {
+    const found = await readTemplate(config.vaultPath, config.dailyNotes.template);
+    if (found === undefined) {
+      console.warn(`Daily note template "${config.dailyNotes.template}" not found, creating an empty note`);
+    } else {
+      template = found;
+    }
+  }
+
+  return renderTemplate(template, {
+    title: path.basename(getDailyNoteFilePath(config, date), ".md"),
+    date: date.toPlainDateTime(Temporal.Now.plainTimeISO(timeZone)),
+    // Like the Daily notes plugin, a bare {{date}} uses the daily note format
+    dateFormat: config.dailyNotes.format,
+    timeFormat: config.templates.timeFormat
+  });
 }
 
-// Format the date
-export async function getTodayNoteFilePath(): Promise<string> {
-  const today = Temporal.Now.plainDateISO();
-  const formattedDate = formatDateYYYYMMDD(today);
-  console.log("today", today);
-  return path.join(VAULT_PATH, `/My Calendar/My Daily Notes/${formattedDate}.md`);
+/**
+ * Create the daily note for a date from the configured daily-note template, the
+ * way Obsidian's Daily notes plugin would, without needing Obsidian to run.
+ * Does nothing if the note already exists. Returns the note's file path.
+ * `timeZone` decides what today and the time in the template are.
+ */
+export async function createDailyNote(config: VaultConfig, date: Temporal.PlainDate, timeZone: string = userTimeZone(config)): Promise<string> {
+  const filePath = getDailyNoteFilePath(config, date);
+  if (await fileExists(filePath)) {
+    return filePath;
+  }
+
+  // Obsidian only creates its own today's note via URI; other days are created from the template
+  if (config.dailyNotes.creation === "uri" && date.equals(Temporal.Now.plainDateISO(timeZone))) {
+    await createDailyNoteViaURI(config);
+    if (!(await fileExists(filePath))) {
+      throw new Error("Failed to create today's note via Obsidian URI");
+    }
+    return filePath;
+  }
+
+  const content = await renderDailyNote(config, date, timeZone);
+  try {
+    await createFileAtomic(filePath, content);
+  } catch (error) {
+    // Someone else (most likely Obsidian) created it first, which is just as good
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+  }
+  return filePath;
 }
-export async function createDailyNoteViaURI(): Promise<void> {
-  // const vaultName = path.basename(VAULT_PATH);
-  const obsidianUri = `obsidian://actions-uri/daily-note/create?vault=66ed71cffdfb0ad4`;
+
+/**
+ * Ask a running Obsidian to create today's daily note through the Actions URI plugin.
+ * Only used when `dailyNotes.creation` is set to "uri".
+ */
+export async function createDailyNoteViaURI(config: VaultConfig): Promise<void> {
+  const vault = config.obsidianVault ?? path.basename(config.vaultPath);
+  const obsidianUri = `obsidian://actions-uri/daily-note/create?vault=${encodeURIComponent(vault)}`;
   const openModule = await import("open");
   const open = openModule.default;
   await open(obsidianUri);
   await new Promise(resolve => setTimeout(resolve, 1000));
 }
-
-/**
- * Extracts markdown content inside a triple backtick block labeled as "markdown".
- * Returns null if no such block is found.
- */
-export function extractMarkdownContent(input: string): string | null {
-  const regex = /```markdown\s*([\s\S]*?)\s*```/;
-  const match = input.match(regex);
-  return match ? match[1].trim() : null;
-}
\ No newline at end of file
@@ -0,0 +1,229 @@
+import fs from "fs/promises";
+import path from "path";
+import YAML from "yaml";
+import { isIndexedPath, VaultConfig } from "./config";
+import { lineBreak } from "./diff";
+
+/**
+ * A markdown note read from the vault, with the pieces the indexes care about
+ * already pulled out of the raw file.
+ */
+export interface VaultNote {
+  /** Vault-relative path using forward slashes, e.g. "My Thoughts/Idea.md" */
+  path: string;
+  title: string;
+  folder: string;
+  frontmatter: Record<string, unknown>;
+  /** Note content without the YAML frontmatter block */
+  body: string;
+  tags: string[];
+  headings: string[];
+  mtimeMs: number;
+}
+
+/**
+ * Convert an absolute path inside the vault to a vault-relative path with
+ * forward slashes, which is how Obsidian itself refers to files.
+ */
+export function toVaultPath(vaultPath: string, filePath: string): string {
+  return path.relative(vaultPath, filePath).split(path.sep).join("/");
+}
+
+/**
+ * Normalize a note path given by a user or agent: forward slashes, no leading
+ * slash and the ".md" extension added when it was left out.
+ */
+export function normalizeNotePath(notePath: string): string {
+  const normalized = notePath.trim().replace(/\\/g, "/").replace(/^\/+/, "");
+  return normalized.toLowerCase().endsWith(".md") ? normalized : `${normalized}.md`;
+}
+
+// Markdown files of the vaults the watcher keeps up to date, by vault path
+const watchedFiles = new Map<string, Set<string>>();
+
+/**
+ * Let the file watcher take over the file list of a vault, or give it back
+ * with `undefined`. While a vault is watched, the indexes trust the watcher to
+ * report changes and skip rescanning the vault on every call.
+ */
+export function setWatchedFiles(vaultPath: string, files: Set<string> | undefined): void {
+  if (files) {
+    watchedFiles.set(vaultPath, files);
+  } else {
+    watchedFiles.delete(vaultPath);
+  }
+}
+
+export function isVaultWatched(vaultPath: string): boolean {
+  return watchedFiles.has(vaultPath);
+}
+
+/**
+ * Recursively list every markdown file in the vault as vault-relative paths.
+ * Hidden folders such as `.obsidian` and `.trash` are skipped. Watched vaults
+ * are answered from the watcher's list.
+ */
+export async function listMarkdownFiles(vaultPath: string): Promise<string[]> {
+  const watched = watchedFiles.get(vaultPath);
+  return watched ? [...watched] : scanMarkdownFiles(vaultPath);
+}
+
+/**
+ * List the markdown files in a folder of the vault (the whole vault by default) from disk.
+ */
+export async function scanMarkdownFiles(vaultPath: string, folder: string = ""): Promise<string[]> {
+  const files: string[] = [];
+
+  const visit = async (dirPath: string) => {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) continue;
+      const entryPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        await visit(entryPath);
+      } else if (entry.isFile() && entry.name.endsWith(".md")) {
+        files.push(toVaultPath(vaultPath, entryPath));
+      }
+    }
+  };
+
+  await visit(path.join(vaultPath, folder));
+  return files;
+}
+
+/**
+ * List the vault-relative paths of the notes allowed by the indexing include/exclude rules.
+ */
+export async function listIndexedNotes(config: VaultConfig): Promise<string[]> {
+  const notePaths = await listMarkdownFiles(config.vaultPath);
+  return notePaths.filter(notePath => isIndexedPath(config, notePath));
+}
+
+/**
+ * Split a note into its YAML frontmatter and body.
+ * Malformed frontmatter is treated as empty rather than failing the read.
+ */
+export function parseFrontmatter(content: string): { frontmatter: Record<string, unknown>; body: string } {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) {
+    return { frontmatter: {}, body: content };
+  }
+
+  let frontmatter: Record<string, unknown> = {};
+  try {
+    const parsed = YAML.parse(match[1]);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      frontmatter = parsed;
+    }
+  } catch (error) {
+    console.error("Failed to parse frontmatter:", error);
+  }
+
+  return { frontmatter, body: content.slice(match[0].length) };
+}
+
+/**
+ * Serialize a note with a YAML frontmatter block above its body.
+ * Empty values are left out; without any frontmatter only the body is returned.
+ */
+export function composeNote(frontmatter: Record<string, unknown>, body: string): string {
+  const entries = Object.entries(frontmatter).filter(([, value]) =>
+    value !== undefined && value !== null && value !== "" && !(Array.isArray(value) && value.length === 0));
+  if (entries.length === 0) {
+    return body;
+  }
+  return `---\n${YAML.stringify(Object.fromEntries(entries))}---\n\n${body.replace(/^\n+/, "")}`;
+}
+
+/**
+ * Set frontmatter properties of a note, keeping the order, formatting and
+ * comments of the other properties and leaving the body untouched.
+ * `null` values are written as empty properties, like Obsidian does.
+ */
+export function updateFrontmatter(content: string, updates: Record<string, unknown>): string {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  const document = YAML.parseDocument(match ? match[1] : "");
+  if (document.errors.length > 0) {
+    throw new Error(`Can't update malformed frontmatter: ${document.errors[0].message}`);
+  }
+  for (const [key, value] of Object.entries(updates)) {
+    document.set(key, value);
+  }
+  const eol = lineBreak(content);
+  const frontmatter = `---\n${document.toString({ nullStr: "" })}---\n`.replace(/\n/g, eol);
+  return match ? frontmatter + content.slice(match[0].length) : `${frontmatter}${eol}${content}`;
+}
+
+/**
+ * Remove fenced code blocks and inline code so that `#` characters inside code
+ * are not mistaken for tags or headings.
+ */
+export function stripCode(markdown: string): string {
+  return markdown
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, "")
+    .replace(/`[^`\n]*`/g, "");
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+/**
+ * Collect tags from the frontmatter (`tags`/`tag`, as a list or comma separated
+ * string) and from inline `#tags` in the body.
+ */
+export function extractTags(body: string, frontmatter: Record<string, unknown> = {}): string[] {
+  const tags = new Set<string>();
+
+  for (const key of ["tags", "tag"]) {
+    const value = frontmatter[key];
+    const values = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[,\s]+/) : [];
+    for (const tag of values) {
+      if (typeof tag === "string" && normalizeTag(tag)) {
+        tags.add(normalizeTag(tag));
+      }
+    }
+  }
+
+  const inlineTag = /(?:^|\s)#([\p{L}\p{N}_/-]+)/gu;
+  for (const match of stripCode(body).matchAll(inlineTag)) {
+    // Obsidian requires at least one non-numeric character in a tag
+    if (/[^\d/]/.test(match[1])) {
+      tags.add(normalizeTag(match[1]));
+    }
+  }
+
+  return [...tags];
+}
+
+/**
+ * List the text of every ATX heading in the body, in document order.
+ */
+export function extractHeadings(body: string): string[] {
+  const headings: string[] = [];
+  for (const match of stripCode(body).matchAll(/^#{1,6}[ \t]+(.+?)[ \t#]*$/gm)) {
+    headings.push(match[1].trim());
+  }
+  return headings;
+}
+
+/**
+ * Read and parse a single note given its vault-relative path.
+ */
+export async function readVaultNote(vaultPath: string, notePath: string): Promise<VaultNote> {
+  const filePath = path.join(vaultPath, notePath);
+  const [content, stat] = await Promise.all([fs.readFile(filePath, "utf8"), fs.stat(filePath)]);
+  const { frontmatter, body } = parseFrontmatter(content);
+  const folder = path.posix.dirname(notePath);
+
+  return {
+    path: notePath,
+    title: path.posix.basename(notePath, ".md"),
+    folder: folder === "." ? "" : folder,
+    frontmatter,
+    body,
+    tags: extractTags(body, frontmatter),
+    headings: extractHeadings(body),
+    mtimeMs: stat.mtimeMs
+  };
+}
@@ -0,0 +1,112 @@
+import { VectorStore } from "@langchain/core/vectorstores";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { Document, DocumentInterface } from "@langchain/core/documents";
+import fs from "fs/promises";
+import path from "path";
+
+interface StoredVector {
+    content: string;
+    metadata: Record<string, unknown>;
+    embedding: number[];
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * A small vector store persisted as a single JSON file.
+ * It keeps every vector in memory, which is fine for a personal vault and
+ * removes the need to run a Chroma server. Changes are written to the file
+ * by `flush`, so a sync of many notes rewrites it once instead of per note.
+ */
+export class LocalVectorStore extends VectorStore {
+    declare FilterType: (doc: Document) => boolean;
+
+    private vectors = new Map<string, StoredVector>();
+    private dirty = false;
+
+    constructor(embeddings: EmbeddingsInterface, private filePath: string) {
+        super(embeddings, {});
+    }
+
+    _vectorstoreType(): string {
+        return "local-file";
+    }
+
+    /**
+     * Open the store at the given path, loading any vectors saved previously.
+     */
+    static async load(embeddings: EmbeddingsInterface, filePath: string): Promise<LocalVectorStore> {
+        const store = new LocalVectorStore(embeddings, filePath);
+        try {
+            const saved: Record<string, StoredVector> = JSON.parse(await fs.readFile(filePath, "utf8"));
+            store.vectors = new Map(Object.entries(saved));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+                console.error("Failed to load local vector store, starting empty:", error);
+            }
+        }
+        return store;
+    }
+
+    get size(): number {
+        return this.vectors.size;
+    }
+
+    async addVectors(vectors: number[][], documents: DocumentInterface[], options?: { ids?: string[] }): Promise<string[]> {
+        const ids = options?.ids ?? documents.map((_, i) => `${Date.now()}_${this.vectors.size + i}`);
+        documents.forEach((doc, i) => {
+            this.vectors.set(ids[i], { content: doc.pageContent, metadata: doc.metadata, embedding: vectors[i] });
+        });
+        this.dirty = true;
+        return ids;
+    }
+
+    async addDocuments(documents: DocumentInterface[], options?: { ids?: string[] }): Promise<string[]> {
+        const vectors = await this.embeddings.embedDocuments(documents.map(doc => doc.pageContent));
+        return this.addVectors(vectors, documents, options);
+    }
+
+    async delete(params?: { ids?: string[] }): Promise<void> {
+        for (const id of params?.ids ?? []) {
+            this.vectors.delete(id);
+        }
+        this.dirty = true;
+    }
+
+    async clear(): Promise<void> {
+        this.vectors.clear();
+        this.dirty = true;
+    }
+
+    /**
+     * Write the vectors to the file if they changed since the last flush.
+     */
+    async flush(): Promise<void> {
+        if (!this.dirty) return;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(Object.fromEntries(this.vectors)), "utf8");
+        await fs.rename(tempPath, this.filePath);
+        this.dirty = false;
+    }
+
+    async similaritySearchVectorWithScore(query: number[], k: number, filter?: this["FilterType"]): Promise<[Document, number][]> {
+        const results: [Document, number][] = [];
+        for (const [id, stored] of this.vectors) {
+            const doc = new Document({ id, pageContent: stored.content, metadata: stored.metadata });
+            if (filter && !filter(doc)) continue;
+            results.push([doc, cosineSimilarity(query, stored.embedding)]);
+        }
+        return results.sort((a, b) => b[1] - a[1]).slice(0, k);
+    }
+}
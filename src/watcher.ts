@@ -0,0 +1,195 @@
+import fs from "fs";
+import path from "path";
+import { VaultConfig } from "./config";
+import { updateEmbeddingIndex } from "./embeddings";
+import { fileExists } from "./files";
+import { updateSearchIndex } from "./search";
+import { updateTaskIndex } from "./tasks";
+import { scanMarkdownFiles, setWatchedFiles } from "./vault";
+
+export interface WatcherStatus {
+  vaultPath: string;
+  watching: boolean;
+  startedAt?: string;
+  /** Changed paths waiting to be applied */
+  queueDepth: number;
+  /** When the last batch of changes was applied to the indexes */
+  lastSync?: string;
+  lastEvent?: string;
+  /** Notes updated in the indexes since the watcher started */
+  notesSynced: number;
+  /** Most recent errors, newest last */
+  errors: { time: string; message: string }[];
+}
+
+interface VaultWatcher {
+  config: VaultConfig;
+  watcher?: fs.FSWatcher;
+  files: Set<string>;
+  /** Vault-relative paths of changed files and folders */
+  pending: Set<string>;
+  timer?: NodeJS.Timeout;
+  firstPendingAt?: number;
+  syncing?: Promise<void>;
+  status: WatcherStatus;
+}
+
+// Obsidian saves every couple of seconds while typing, so wait for a pause before syncing
+const DEBOUNCE_MS = 2000;
+// ...but don't hold changes back for longer than this during a long editing session
+const MAX_DELAY_MS = 10000;
+const MAX_ERRORS = 20;
+
+const watchers = new Map<string, VaultWatcher>();
+
+/**
+ * Whether a changed path can affect the indexes. Anything in a hidden folder
+ * (`.obsidian`, `.trash`, the service's own data) and hidden files, which
+ * includes the temporary files of atomic writes, is ignored.
+ */
+function isRelevantPath(notePath: string): boolean {
+  return notePath !== "" && !notePath.split("/").some(part => part.startsWith("."));
+}
+
+function recordError(state: VaultWatcher, error: unknown) {
+  console.error("Vault watcher error:", error);
+  state.status.errors.push({ time: new Date().toISOString(), message: error instanceof Error ? error.message : String(error) });
+  state.status.errors.splice(0, state.status.errors.length - MAX_ERRORS);
+}
+
+/**
+ * Work out which notes a batch of changed paths affects. A path that isn't a
+ * note is a folder that was created, renamed or deleted, so every note that
+ * was or now is inside it counts as changed.
+ */
+async function changedNotes(state: VaultWatcher, changed: string[]): Promise<string[]> {
+  const notes = new Set<string>();
+  for (const changedPath of changed) {
+    if (changedPath.endsWith(".md")) {
+      notes.add(changedPath);
+      continue;
+    }
+    for (const notePath of state.files) {
+      if (notePath.startsWith(`${changedPath}/`)) notes.add(notePath);
+    }
+    const found = await scanMarkdownFiles(state.config.vaultPath, changedPath).catch(() => [] as string[]);
+    found.forEach(notePath => notes.add(notePath));
+  }
+  return [...notes];
+}
+
+async function applyChanges(state: VaultWatcher): Promise<void> {
+  const changed = [...state.pending];
+  state.pending.clear();
+  state.firstPendingAt = undefined;
+  state.status.queueDepth = 0;
+
+  const notePaths = await changedNotes(state, changed);
+  for (const notePath of notePaths) {
+    if (await fileExists(path.join(state.config.vaultPath, notePath))) {
+      state.files.add(notePath);
+    } else {
+      state.files.delete(notePath);
+    }
+  }
+
+  // Each index is updated on its own, so one failing doesn't leave the others stale
+  for (const update of [updateSearchIndex, updateTaskIndex, updateEmbeddingIndex]) {
+    try {
+      await update(state.config, notePaths);
+    } catch (error) {
+      recordError(state, error);
+    }
+  }
+  // The link graph is built from the search index and the file list, so it is current too
+
+  state.status.notesSynced += notePaths.length;
+  state.status.lastSync = new Date().toISOString();
+}
+
+function flush(state: VaultWatcher) {
+  state.timer = undefined;
+  // Changes that arrive while syncing are applied right after
+  if (state.syncing) return;
+  state.syncing = applyChanges(state)
+    .catch(error => recordError(state, error))
+    .finally(() => {
+      state.syncing = undefined;
+      if (state.pending.size > 0) scheduleSync(state);
+    });
+}
+
+function scheduleSync(state: VaultWatcher) {
+  if (state.timer) clearTimeout(state.timer);
+  const now = Date.now();
+  state.firstPendingAt ??= now;
+  const delay = Math.max(0, Math.min(DEBOUNCE_MS, state.firstPendingAt + MAX_DELAY_MS - now));
+  state.timer = setTimeout(() => flush(state), delay);
+}
+
+/**
+ * Watch the vault for notes being created, edited, renamed or deleted, and
+ * apply the changes to the in-memory indexes and the embedding index in the
+ * background. While the watcher runs, the indexes no longer rescan the vault
+ * on every call. Requires recursive `fs.watch` support (Node 20 and later on Linux).
+ */
+export async function startVaultWatcher(config: VaultConfig): Promise<WatcherStatus> {
+  const existing = watchers.get(config.vaultPath);
+  if (existing?.status.watching) return existing.status;
+
+  const state: VaultWatcher = existing ?? {
+    config,
+    files: new Set(),
+    pending: new Set(),
+    status: { vaultPath: config.vaultPath, watching: false, queueDepth: 0, notesSynced: 0, errors: [] }
+  };
+  watchers.set(config.vaultPath, state);
+
+  try {
+    // Start listening before listing the files, so nothing changed in between is missed
+    state.watcher = fs.watch(config.vaultPath, { recursive: true }, (_, filename) => {
+      if (!filename) return;
+      const changedPath = filename.toString().split(path.sep).join("/");
+      if (!isRelevantPath(changedPath)) return;
+      state.pending.add(changedPath);
+      state.status.queueDepth = state.pending.size;
+      state.status.lastEvent = new Date().toISOString();
+      scheduleSync(state);
+    });
+    state.watcher.on("error", error => stopVaultWatcher(config.vaultPath, error));
+
+    state.files = new Set(await scanMarkdownFiles(config.vaultPath));
+    setWatchedFiles(config.vaultPath, state.files);
+    state.status.watching = true;
+    state.status.startedAt = new Date().toISOString();
+  } catch (error) {
+    stopVaultWatcher(config.vaultPath, error);
+  }
+  return state.status;
+}
+
+/**
+ * Stop watching a vault, e.g. after a watch error. The indexes go back to
+ * checking the vault for changes on every call.
+ */
+export function stopVaultWatcher(vaultPath: string, error?: unknown): void {
+  const state = watchers.get(vaultPath);
+  if (!state) return;
+  if (error) recordError(state, error);
+  state.watcher?.close();
+  state.watcher = undefined;
+  if (state.timer) clearTimeout(state.timer);
+  state.timer = undefined;
+  state.pending.clear();
+  state.status.queueDepth = 0;
+  state.status.watching = false;
+  setWatchedFiles(vaultPath, undefined);
+}
+
+/**
+ * The watcher's status for a vault, also when it isn't running.
+ */
+export function getWatcherStatus(vaultPath: string): WatcherStatus {
+  return watchers.get(vaultPath)?.status
+    ?? { vaultPath, watching: false, queueDepth: 0, notesSynced: 0, errors: [] };
+}